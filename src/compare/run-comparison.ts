@@ -0,0 +1,198 @@
+/**
+ * Run Comparison
+ *
+ * Compares two madie results files (--output) test case by test case, to
+ * review the effect of measure logic or ValueSet updates between runs.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Group entry of a saved result
+ */
+export interface SavedGroupResult {
+  groupId: string;
+  groupName?: string;
+  passed: boolean;
+  actual: Record<string, unknown>;
+  actualScore?: number | null;
+  mismatches?: string[];
+}
+
+/**
+ * Test case entry of a saved results file
+ */
+export interface SavedTestResult {
+  id: string;
+  name: string;
+  title?: string;
+  passed: boolean;
+  actual?: number | { initialPopulation: number };
+  groups?: SavedGroupResult[];
+  error?: string;
+}
+
+/**
+ * A saved results file (madie --output)
+ */
+export interface SavedRun {
+  package?: string;
+  timestamp?: string;
+  results: SavedTestResult[];
+}
+
+/**
+ * A value that differs between the two runs
+ */
+export interface ValueChange {
+  groupId: string;
+  name: string;          // Population key, or "score"
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Differences for one test case present in both runs
+ */
+export interface TestCaseChange {
+  id: string;
+  name: string;
+  before: boolean;
+  after: boolean;
+  countChanges: ValueChange[];
+  scoreChanges: ValueChange[];
+  failures: string[];    // Why the test case fails in the later run
+}
+
+/**
+ * Result of comparing two runs
+ */
+export interface RunComparison {
+  newlyFailing: TestCaseChange[];
+  newlyPassing: TestCaseChange[];
+  changed: TestCaseChange[];     // Same status, different actual results
+  added: SavedTestResult[];
+  removed: SavedTestResult[];
+  unchanged: number;
+}
+
+/**
+ * Load a saved results file
+ */
+export function loadRun(filePath: string): SavedRun {
+  const absolutePath = path.resolve(filePath);
+  if (!fs.existsSync(absolutePath)) {
+    throw new Error(`Results file not found: ${absolutePath}`);
+  }
+  const run = JSON.parse(fs.readFileSync(absolutePath, 'utf-8'));
+  if (!Array.isArray(run?.results)) {
+    throw new Error(`Not a madie results file (no results array): ${absolutePath}`);
+  }
+  return run as SavedRun;
+}
+
+/**
+ * Initial population count, in either the single- or multi-group format
+ */
+function initialPopulation(result: SavedTestResult): unknown {
+  return typeof result.actual === 'object' ? result.actual.initialPopulation : result.actual;
+}
+
+function compareValues(before: unknown, after: unknown): boolean {
+  return JSON.stringify(before) === JSON.stringify(after);
+}
+
+/**
+ * Compare the actual group results of a test case between runs
+ */
+function compareTestCase(before: SavedTestResult, after: SavedTestResult): TestCaseChange {
+  const change: TestCaseChange = {
+    id: after.id,
+    name: after.title ?? after.name,
+    before: before.passed,
+    after: after.passed,
+    countChanges: [],
+    scoreChanges: [],
+    failures: after.error
+      ? [after.error]
+      : (after.groups ?? [])
+        .filter(g => !g.passed)
+        .map(g => `${g.groupId}: ${(g.mismatches ?? []).join(', ') || 'results'} mismatch`)
+  };
+
+  if (!compareValues(initialPopulation(before), initialPopulation(after)) && !after.groups) {
+    change.countChanges.push({
+      groupId: '',
+      name: 'initialPopulation',
+      before: initialPopulation(before),
+      after: initialPopulation(after)
+    });
+  }
+
+  const beforeGroups = new Map((before.groups ?? []).map(g => [g.groupId, g]));
+  for (const group of after.groups ?? []) {
+    const previous = beforeGroups.get(group.groupId);
+    if (!previous) continue;
+
+    const keys = new Set([...Object.keys(previous.actual), ...Object.keys(group.actual)]);
+    for (const key of keys) {
+      if (!compareValues(previous.actual[key], group.actual[key])) {
+        change.countChanges.push({ groupId: group.groupId, name: key, before: previous.actual[key], after: group.actual[key] });
+      }
+    }
+    if (!compareValues(previous.actualScore ?? null, group.actualScore ?? null)) {
+      change.scoreChanges.push({
+        groupId: group.groupId,
+        name: 'score',
+        before: previous.actualScore ?? null,
+        after: group.actualScore ?? null
+      });
+    }
+  }
+
+  return change;
+}
+
+/**
+ * Line up two runs by test case id and report what changed
+ *
+ * @param before - The earlier run
+ * @param after - The later run
+ */
+export function compareRuns(before: SavedRun, after: SavedRun): RunComparison {
+  const comparison: RunComparison = {
+    newlyFailing: [],
+    newlyPassing: [],
+    changed: [],
+    added: [],
+    removed: [],
+    unchanged: 0
+  };
+
+  const beforeById = new Map(before.results.map(r => [r.id, r]));
+  const afterIds = new Set(after.results.map(r => r.id));
+
+  for (const result of after.results) {
+    const previous = beforeById.get(result.id);
+    if (!previous) {
+      comparison.added.push(result);
+      continue;
+    }
+
+    const change = compareTestCase(previous, result);
+    if (previous.passed && !result.passed) {
+      comparison.newlyFailing.push(change);
+    } else if (!previous.passed && result.passed) {
+      comparison.newlyPassing.push(change);
+    } else if (change.countChanges.length > 0 || change.scoreChanges.length > 0) {
+      comparison.changed.push(change);
+    } else {
+      comparison.unchanged++;
+    }
+  }
+
+  comparison.removed = before.results.filter(r => !afterIds.has(r.id));
+
+  return comparison;
+}
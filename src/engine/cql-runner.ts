@@ -1,4 +1,12 @@
-import { Library, Executor, Repository, Results, CodeService } from 'cql-execution';
+import {
+  Library,
+  Executor,
+  Repository,
+  Results,
+  CodeService,
+  PatientContext,
+  PatientObject,
+} from 'cql-execution';
 import { PatientSource } from 'cql-exec-fhir';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -20,6 +28,13 @@ export interface ELMLibrary {
         version?: string;
       }>;
     };
+    includes?: {
+      def: Array<{
+        localIdentifier: string;
+        path: string;        // Library identifier of the included library
+        version?: string;
+      }>;
+    };
     statements?: {
       def: Array<{
         name: string;
@@ -30,6 +45,51 @@ export interface ELMLibrary {
   };
 }
 
+/**
+ * A node of an ELM tree: a definition, expression or annotation. Its
+ * properties depend on its type, so they are read with the accessors below.
+ */
+export type ElmNode = Record<string, unknown>;
+
+/**
+ * Check whether a value is an ELM node (an object, not a list)
+ */
+export function isElmNode(value: unknown): value is ElmNode {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * A string property of an ELM node; numbers (e.g. localIds) are returned as strings
+ */
+export function elmString(node: ElmNode | undefined, key: string): string | undefined {
+  const value = node?.[key];
+  return typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+}
+
+/**
+ * A node-valued property of an ELM node
+ */
+export function elmNode(node: ElmNode | undefined, key: string): ElmNode | undefined {
+  const value = node?.[key];
+  return isElmNode(value) ? value : undefined;
+}
+
+/**
+ * The nodes of a list-valued property of an ELM node
+ */
+export function elmNodes(node: ElmNode | undefined, key: string): ElmNode[] {
+  const value = node?.[key];
+  return Array.isArray(value) ? value.filter(isElmNode) : [];
+}
+
+/**
+ * The strings of a list-valued property of an ELM node (e.g. annotation text)
+ */
+export function elmStrings(node: ElmNode | undefined, key: string): string[] {
+  const value = node?.[key];
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
 export interface ExecutionResult {
   patientId: string;
   libraryName: string;
@@ -38,6 +98,7 @@ export interface ExecutionResult {
 
 export interface CQLRunnerOptions {
   elmPath: string;
+  elm?: ELMLibrary;              // Already loaded ELM for elmPath (e.g. translated from CQL)
   patientSource: PatientSource;
   codeService?: CodeService;
   parameters?: Record<string, unknown>;
@@ -107,7 +168,7 @@ export function getStatements(elm: ELMLibrary): string[] {
  * Execute CQL against patient data
  */
 export async function executeCQL(options: CQLRunnerOptions): Promise<ExecutionResult[]> {
-  const mainELM = loadELM(options.elmPath);
+  const mainELM = options.elm ?? loadELM(options.elmPath);
 
   // Create repository with all libraries
   const allLibraries = [mainELM, ...(options.includedLibraries || [])];
@@ -153,6 +214,86 @@ export async function executeExpression(
   }));
 }
 
+/**
+ * Evaluates a library function by name for a single patient
+ */
+export type FunctionEvaluator = (name: string, args: unknown[]) => Promise<unknown>;
+
+/**
+ * A library function definition as the engine holds it
+ */
+interface FunctionDefinition {
+  parameters: Array<{ name: string; operandType?: string; operandTypeSpecifier?: ElmNode }>;
+  expression: { execute(ctx: unknown): Promise<unknown> };
+}
+
+/**
+ * The operand type specifier of a function parameter; older ELM names the type only
+ */
+function operandTypeSpecifier(parameter: FunctionDefinition['parameters'][number]): ElmNode | undefined {
+  return parameter.operandTypeSpecifier
+    ?? (parameter.operandType ? { type: 'NamedTypeSpecifier', name: parameter.operandType } : undefined);
+}
+
+/**
+ * Operand type of a function parameter, for messages
+ */
+function describeOperandType(parameter: FunctionDefinition['parameters'][number]): string {
+  const spec = operandTypeSpecifier(parameter);
+  const name = elmString(spec, 'name')?.replace(/^\{[^}]*\}/, '');   // Without the model namespace
+  return name ?? elmString(spec, 'type')?.replace(/TypeSpecifier$/, '') ?? 'Any';
+}
+
+/**
+ * Create an evaluator that invokes library functions (e.g. measure
+ * observation functions) in the context of a single patient.
+ * Overloads are resolved by argument count and then by the runtime types of
+ * the (non-null) arguments, as the engine does for FunctionRef.
+ *
+ * @throws Error if no overload matches, or more than one does
+ */
+export function createFunctionEvaluator(
+  library: Library,
+  patient: PatientObject,
+  codeService?: CodeService,
+  parameters?: Record<string, unknown>
+): FunctionEvaluator {
+  const context = new PatientContext(library, patient, codeService, parameters);
+
+  return async (name: string, args: unknown[]) => {
+    const overloads: FunctionDefinition[] = (library.getFunction(name) || []).filter(
+      (f: FunctionDefinition) => f.parameters.length === args.length
+    );
+
+    if (overloads.length === 0) {
+      throw new Error(`Function "${name}" with ${args.length} argument(s) not found in ${library.name}`);
+    }
+
+    const functionDefs = overloads.length === 1 ? overloads : overloads.filter(f =>
+      f.parameters.every((param, i) => {
+        const spec = operandTypeSpecifier(param);
+        return args[i] === null || !spec || context.matchesTypeSpecifier(args[i], spec);
+      })
+    );
+
+    if (functionDefs.length === 0) {
+      throw new Error(`No overload of function "${name}" in ${library.name} matches the argument types`);
+    }
+    if (functionDefs.length > 1) {
+      const signatures = functionDefs.map(f => `${name}(${f.parameters.map(p => describeOperandType(p)).join(', ')})`);
+      throw new Error(`Function "${name}" in ${library.name} is ambiguous for the arguments given: ${signatures.join(', ')}`);
+    }
+
+    const functionDef = functionDefs[0];
+    const childContext = context.childContext();
+    functionDef.parameters.forEach((param, i) => {
+      childContext.set(param.name, args[i]);
+    });
+
+    return functionDef.expression.execute(childContext);
+  };
+}
+
 /**
  * Validate ELM structure
  */
@@ -0,0 +1,214 @@
+/**
+ * Define Dependency Graph
+ *
+ * Builds the graph of defines and functions across a library and the
+ * libraries it includes, following ExpressionRef and FunctionRef references
+ * (library-qualified references resolve through the include aliases of the
+ * referencing library), and writes it as DOT, Mermaid or JSON.
+ */
+
+import { ELMLibrary, ElmNode, elmNode, elmNodes, elmString, isElmNode } from './cql-runner.js';
+
+export const GRAPH_FORMATS = ['dot', 'mermaid', 'json'] as const;
+export type GraphFormat = typeof GRAPH_FORMATS[number];
+
+/**
+ * A define or function; overloads of a function share one node
+ */
+export interface GraphNode {
+  id: string;              // <library>.<name>
+  library: string;
+  name: string;
+  kind: 'define' | 'function';
+}
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+}
+
+export interface DependencyGraph {
+  libraries: Array<{ id: string; version?: string }>;
+  roots: string[];         // Node ids of the requested roots; empty when every define is included
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+export function isGraphFormat(name: string): name is GraphFormat {
+  return (GRAPH_FORMATS as readonly string[]).includes(name);
+}
+
+function nodeId(library: string, name: string): string {
+  return `${library}.${name}`;
+}
+
+/**
+ * A referenced define or function, with its (unqualified) name
+ */
+interface ElmRef {
+  node: ElmNode;
+  name: string;
+}
+
+/**
+ * Collect the ExpressionRef and FunctionRef nodes of an expression tree
+ */
+function collectRefs(node: unknown, refs: ElmRef[]): void {
+  if (Array.isArray(node)) {
+    node.forEach(child => collectRefs(child, refs));
+    return;
+  }
+  if (!isElmNode(node)) return;
+
+  const type = elmString(node, 'type');
+  const name = elmString(node, 'name');
+  if ((type === 'ExpressionRef' || type === 'FunctionRef') && name !== undefined) {
+    refs.push({ node, name });
+  }
+  for (const [key, value] of Object.entries(node)) {
+    if (key !== 'annotation' && value && typeof value === 'object') collectRefs(value, refs);
+  }
+}
+
+/**
+ * Build the dependency graph of a library's defines, including what they
+ * reference in other libraries
+ *
+ * @param main - The main library
+ * @param libraries - The libraries it includes (transitively)
+ * @param roots - Names of main library defines to start from; every define of the main library when empty
+ * @throws Error if a root is not a define of the main library
+ */
+export function buildDependencyGraph(main: ELMLibrary, libraries: ELMLibrary[], roots: string[] = []): DependencyGraph {
+  const all = [main, ...libraries.filter(lib => lib !== main)];
+  const byId = new Map(all.map(lib => [lib.library.identifier.id, lib]));
+  const mainId = main.library.identifier.id;
+
+  // Outgoing edges and kind of every define and function, by node id
+  const definitions = new Map<string, { node: GraphNode; targets: Set<string> }>();
+  for (const lib of all) {
+    const libraryId = lib.library.identifier.id;
+    const aliases = new Map((lib.library.includes?.def ?? []).map(include => [include.localIdentifier, include.path]));
+
+    for (const def of elmNodes(elmNode(lib.library, 'statements'), 'def')) {
+      const name = elmString(def, 'name') ?? '';
+      const id = nodeId(libraryId, name);
+      const entry = definitions.get(id) ?? {
+        node: { id, library: libraryId, name, kind: elmString(def, 'type') === 'FunctionDef' ? 'function' : 'define' },
+        targets: new Set<string>()
+      };
+      definitions.set(id, entry);
+
+      const refs: ElmRef[] = [];
+      collectRefs(elmNode(def, 'expression'), refs);
+      for (const ref of refs) {
+        const libraryName = elmString(ref.node, 'libraryName');
+        const targetLibrary = libraryName ? aliases.get(libraryName) : libraryId;
+        if (targetLibrary && byId.has(targetLibrary)) {
+          entry.targets.add(nodeId(targetLibrary, ref.name));
+        }
+      }
+    }
+  }
+
+  for (const root of roots) {
+    if (!definitions.has(nodeId(mainId, root))) {
+      throw new Error(`Define "${root}" not found in ${mainId}`);
+    }
+  }
+  const rootIds = roots.length > 0
+    ? roots.map(root => nodeId(mainId, root))
+    : [...definitions.values()].filter(d => d.node.library === mainId).map(d => d.node.id);
+
+  // Keep what is reachable from the roots
+  const reached = new Set<string>();
+  const queue = [...rootIds];
+  const edges: GraphEdge[] = [];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (reached.has(id)) continue;
+    reached.add(id);
+    for (const target of definitions.get(id)?.targets ?? []) {
+      if (!definitions.has(target)) continue;
+      edges.push({ from: id, to: target });
+      queue.push(target);
+    }
+  }
+
+  const nodes = [...definitions.values()].filter(d => reached.has(d.node.id)).map(d => d.node);
+  const usedLibraries = new Set(nodes.map(n => n.library));
+  return {
+    libraries: all
+      .filter(lib => usedLibraries.has(lib.library.identifier.id))
+      .map(lib => ({ id: lib.library.identifier.id, version: lib.library.identifier.version })),
+    roots: roots.length > 0 ? rootIds : [],
+    nodes,
+    edges
+  };
+}
+
+function libraryLabel(library: { id: string; version?: string }): string {
+  return library.version ? `${library.id} ${library.version}` : library.id;
+}
+
+/**
+ * Format the graph as Graphviz DOT, one cluster per library
+ */
+function formatDot(graph: DependencyGraph): string {
+  const quote = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  const lines = ['digraph dependencies {', '  rankdir=LR;', '  node [shape=box];'];
+
+  graph.libraries.forEach((library, i) => {
+    lines.push(`  subgraph cluster_${i} {`, `    label=${quote(libraryLabel(library))};`);
+    for (const node of graph.nodes.filter(n => n.library === library.id)) {
+      const attributes = [`label=${quote(node.name)}`];
+      if (node.kind === 'function') attributes.push('shape=ellipse');
+      if (graph.roots.includes(node.id)) attributes.push('style=bold');
+      lines.push(`    ${quote(node.id)} [${attributes.join(', ')}];`);
+    }
+    lines.push('  }');
+  });
+  for (const edge of graph.edges) {
+    lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)};`);
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Format the graph as a Mermaid flowchart, one subgraph per library
+ */
+function formatMermaid(graph: DependencyGraph): string {
+  const ids = new Map(graph.nodes.map((node, i) => [node.id, `n${i}`]));
+  const label = (text: string) => `"${text.replace(/"/g, '#quot;')}"`;
+  const lines = ['flowchart LR'];
+
+  graph.libraries.forEach((library, i) => {
+    lines.push(`  subgraph lib${i}[${label(libraryLabel(library))}]`);
+    for (const node of graph.nodes.filter(n => n.library === library.id)) {
+      // Functions are drawn as rounded nodes
+      lines.push(node.kind === 'function'
+        ? `    ${ids.get(node.id)}(${label(node.name)})`
+        : `    ${ids.get(node.id)}[${label(node.name)}]`);
+    }
+    lines.push('  end');
+  });
+  for (const edge of graph.edges) {
+    lines.push(`  ${ids.get(edge.from)} --> ${ids.get(edge.to)}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Format a dependency graph
+ */
+export function formatGraph(graph: DependencyGraph, format: GraphFormat): string {
+  switch (format) {
+    case 'dot':
+      return formatDot(graph);
+    case 'mermaid':
+      return formatMermaid(graph);
+    case 'json':
+      return JSON.stringify(graph, null, 2);
+  }
+}
@@ -0,0 +1,269 @@
+/**
+ * ELM Validator
+ *
+ * Semantic checks on an ELM library beyond its structure (validateELM):
+ * walks the expression tree for references without a definition, checks
+ * includes against the libraries available to the Repository, duplicate
+ * definitions and the ELM schema version, and collects the translator's
+ * own error and warning annotations.
+ */
+
+import { ELMLibrary, ElmNode, elmNode, elmNodes, elmString, isElmNode, validateELM } from './cql-runner.js';
+import { describeIncludeProblem, IncludeResolution } from './library-resolver.js';
+import { extractTranslatorMessages } from '../translator/translate-cql.js';
+
+/**
+ * ELM schema supported by cql-execution
+ */
+export const SUPPORTED_ELM_SCHEMA = { id: 'urn:hl7-org:elm', version: 'r1' };
+
+export type IssueSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * A problem found in a library
+ */
+export interface ValidationIssue {
+  severity: IssueSeverity;
+  message: string;
+  location?: string;    // Enclosing definition and locator (line:column) when known
+}
+
+/**
+ * Definition sections of an ELM library, by the reference type that points into them
+ */
+const REFERENCE_SECTIONS: Record<string, { section: string; kind: string }> = {
+  ExpressionRef: { section: 'statements', kind: 'define' },
+  FunctionRef: { section: 'statements', kind: 'function' },
+  ParameterRef: { section: 'parameters', kind: 'parameter' },
+  ValueSetRef: { section: 'valueSets', kind: 'valueset' },
+  CodeSystemRef: { section: 'codeSystems', kind: 'codesystem' },
+  CodeRef: { section: 'codes', kind: 'code' },
+  ConceptRef: { section: 'concepts', kind: 'concept' }
+};
+
+function definitions(library: ElmNode, section: string): ElmNode[] {
+  return elmNodes(elmNode(library, section), 'def');
+}
+
+/**
+ * Check whether a library defines what a reference points to
+ */
+function isDefined(library: ElmNode, refType: string, name: string, operandCount?: number): boolean {
+  const { section } = REFERENCE_SECTIONS[refType];
+  return definitions(library, section).some(def => {
+    if (elmString(def, 'name') !== name) return false;
+    const isFunction = elmString(def, 'type') === 'FunctionDef';
+    if (refType === 'FunctionRef') {
+      return isFunction && (operandCount === undefined || elmNodes(def, 'operand').length === operandCount);
+    }
+    if (refType === 'ExpressionRef') return !isFunction;
+    return true;
+  });
+}
+
+/**
+ * Collect the references in an expression tree, with their enclosing definition
+ */
+function collectReferences(node: unknown, definition: string, refs: Array<{ node: ElmNode; refType: string; definition: string }>): void {
+  if (Array.isArray(node)) {
+    node.forEach(child => collectReferences(child, definition, refs));
+    return;
+  }
+  if (!isElmNode(node)) return;
+
+  const type = elmString(node, 'type');
+  if (type && type in REFERENCE_SECTIONS && elmString(node, 'name') !== undefined) {
+    refs.push({ node, refType: type, definition });
+  }
+  // InValueSet/AnyInValueSet and CodeDef reference valuesets and codesystems without a type
+  const valueset = elmNode(node, 'valueset');
+  if ((type === 'InValueSet' || type === 'AnyInValueSet') && elmString(valueset, 'name') && !elmString(valueset, 'type')) {
+    refs.push({ node: valueset!, refType: 'ValueSetRef', definition });
+  }
+  const codeSystem = elmNode(node, 'codeSystem');
+  if (elmString(codeSystem, 'name') && !elmString(codeSystem, 'type')) {
+    refs.push({ node: codeSystem!, refType: 'CodeSystemRef', definition });
+  }
+
+  for (const [key, value] of Object.entries(node)) {
+    if (key !== 'annotation' && value && typeof value === 'object') {
+      collectReferences(value, definition, refs);
+    }
+  }
+}
+
+/**
+ * Format an operand type specifier as CQL, e.g. FHIR.Encounter or List<System.Integer>.
+ * Qualified type names use the library's model aliases.
+ */
+function formatTypeSpecifier(spec: ElmNode | undefined, models: Map<string, string>): string {
+  const formatName = (qname: string | undefined) => {
+    const match = qname?.match(/^\{(.*)\}(.*)$/);
+    if (!match) return qname ?? 'Any';
+    return `${models.get(match[1]) ?? match[1]}.${match[2]}`;
+  };
+  const format = (child: ElmNode | undefined) => formatTypeSpecifier(child, models);
+
+  switch (elmString(spec, 'type')) {
+    case 'NamedTypeSpecifier':
+      return formatName(elmString(spec, 'name'));
+    case 'ListTypeSpecifier':
+      return `List<${format(elmNode(spec, 'elementType'))}>`;
+    case 'IntervalTypeSpecifier':
+      return `Interval<${format(elmNode(spec, 'pointType'))}>`;
+    case 'ChoiceTypeSpecifier': {
+      const choices = [...elmNodes(spec, 'choice'), ...elmNodes(spec, 'type')];
+      return `Choice<${choices.map(format).join(', ')}>`;
+    }
+    case 'TupleTypeSpecifier': {
+      const elements = elmNodes(spec, 'element').map(e => `${elmString(e, 'name')} ${format(elmNode(e, 'elementType'))}`);
+      return `Tuple { ${elements.join(', ')} }`;
+    }
+    default:
+      return 'Any';
+  }
+}
+
+/**
+ * Signature of a function definition from its operand types, e.g. "Duration(FHIR.Encounter)"
+ */
+function formatFunctionSignature(def: ElmNode, models: Map<string, string>): string {
+  const operands = elmNodes(def, 'operand').map(operand => {
+    const spec = elmNode(operand, 'operandTypeSpecifier');
+    // Older ELM gives the type as a qualified name in operandType
+    return spec
+      ? formatTypeSpecifier(spec, models)
+      : formatTypeSpecifier({ type: 'NamedTypeSpecifier', name: elmString(operand, 'operandType') }, models);
+  });
+  return `${elmString(def, 'name')}(${operands.join(', ')})`;
+}
+
+function describeLibrary(elm: ELMLibrary): string {
+  const { id, version } = elm.library.identifier;
+  return version ? `${id} version '${version}'` : id;
+}
+
+/**
+ * Check a library's schema identifier against the supported ELM schema
+ */
+function checkSchema(elm: ELMLibrary, issues: ValidationIssue[]): void {
+  const schema = elm.library.schemaIdentifier;
+  if (!schema) {
+    issues.push({ severity: 'warning', message: `${describeLibrary(elm)} has no schemaIdentifier` });
+  } else if (schema.id !== SUPPORTED_ELM_SCHEMA.id || schema.version !== SUPPORTED_ELM_SCHEMA.version) {
+    issues.push({
+      severity: 'error',
+      message: `${describeLibrary(elm)} uses ELM schema ${schema.id} ${schema.version}; ${SUPPORTED_ELM_SCHEMA.id} ${SUPPORTED_ELM_SCHEMA.version} is supported`
+    });
+  }
+}
+
+/**
+ * Validate an ELM library and the libraries it includes
+ *
+ * @param elm - The library to validate
+ * @param included - Resolution of the library's includes (see resolveIncludes)
+ * @returns Issues, errors first
+ */
+export function validateLibrary(elm: ELMLibrary, included: IncludeResolution): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  // Structure and model usings
+  for (const error of validateELM(elm).errors) {
+    issues.push(error.startsWith('Warning')
+      ? { severity: 'warning', message: error.replace(/^Warning:\s*/, '') }
+      : { severity: 'error', message: error });
+  }
+  if (!elm.library?.identifier?.id) return issues;
+
+  // Translator annotations
+  for (const message of extractTranslatorMessages(elm)) {
+    issues.push({
+      severity: message.severity,
+      message: `Translator ${message.errorType ? `${message.errorType} ` : ''}${message.severity}: ${message.message}`,
+      location: message.line !== undefined ? `at ${message.line}:${message.column ?? 0}` : undefined
+    });
+  }
+
+  // Schema version, including the included libraries
+  checkSchema(elm, issues);
+  included.libraries.forEach(lib => checkSchema(lib, issues));
+
+  // Includes missing from the repository
+  for (const problem of included.problems) {
+    issues.push({ severity: 'error', message: describeIncludeProblem(problem) });
+  }
+
+  const library = elm.library as ElmNode;
+
+  // Duplicate definitions (function overloads with different operand types are allowed)
+  const models = new Map((elm.library.usings?.def ?? []).map(using => [using.uri, using.localIdentifier]));
+  const seen = new Map<string, number>();
+  for (const def of definitions(library, 'statements')) {
+    const signature = elmString(def, 'type') === 'FunctionDef'
+      ? formatFunctionSignature(def, models)
+      : elmString(def, 'name') ?? '';
+    seen.set(signature, (seen.get(signature) ?? 0) + 1);
+  }
+  for (const [signature, count] of seen) {
+    if (count > 1) {
+      issues.push({ severity: 'error', message: `"${signature}" is defined ${count} times` });
+    }
+  }
+  for (const section of ['parameters', 'valueSets', 'codeSystems', 'codes', 'concepts']) {
+    const names = definitions(library, section).map(def => elmString(def, 'name'));
+    for (const name of new Set(names.filter((name, i) => names.indexOf(name) !== i))) {
+      issues.push({ severity: 'error', message: `${section} "${name}" is defined more than once` });
+    }
+  }
+
+  // References without a definition
+  const includesByAlias = new Map<string, ELMLibrary | undefined>();
+  for (const include of elm.library.includes?.def ?? []) {
+    includesByAlias.set(include.localIdentifier, included.libraries.find(lib =>
+      lib.library.identifier.id === include.path &&
+      (!include.version || lib.library.identifier.version === include.version)
+    ));
+  }
+
+  const refs: Array<{ node: ElmNode; refType: string; definition: string }> = [];
+  for (const section of ['parameters', 'codeSystems', 'valueSets', 'codes', 'concepts', 'statements']) {
+    for (const def of definitions(library, section)) {
+      collectReferences(def, elmString(def, 'name') ?? '', refs);
+    }
+  }
+
+  const reported = new Set<string>();
+  for (const { node, refType, definition } of refs) {
+    const { kind } = REFERENCE_SECTIONS[refType];
+    const name = elmString(node, 'name')!;
+    const libraryName = elmString(node, 'libraryName');
+    const locator = elmString(node, 'locator');
+    const location = `in "${definition}"${locator ? ` (${locator})` : ''}`;
+    const target = libraryName ? `${libraryName}."${name}"` : `"${name}"`;
+    const operandCount = refType === 'FunctionRef' ? elmNodes(node, 'operand').length : undefined;
+
+    let message: string | null = null;
+    if (libraryName) {
+      if (!includesByAlias.has(libraryName)) {
+        message = `${refType} ${target}: no included library called ${libraryName}`;
+      } else {
+        const targetLibrary = includesByAlias.get(libraryName);
+        // References into missing includes are covered by the include error
+        if (targetLibrary && !isDefined(targetLibrary.library, refType, name, operandCount)) {
+          message = `${refType} ${target}: ${describeLibrary(targetLibrary)} has no ${kind} named "${name}"${operandCount !== undefined ? ` with ${operandCount} argument(s)` : ''}`;
+        }
+      }
+    } else if (!isDefined(library, refType, name, operandCount)) {
+      message = `${refType} ${target}: no ${kind} named "${name}"${operandCount !== undefined ? ` with ${operandCount} argument(s)` : ''}`;
+    }
+
+    if (message && !reported.has(`${message}|${location}`)) {
+      reported.add(`${message}|${location}`);
+      issues.push({ severity: 'error', message, location });
+    }
+  }
+
+  const order: Record<IssueSeverity, number> = { error: 0, warning: 1, info: 2 };
+  return issues.sort((a, b) => order[a.severity] - order[b.severity]);
+}
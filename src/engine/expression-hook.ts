@@ -0,0 +1,53 @@
+/**
+ * Expression Hook
+ *
+ * The one patch of the engine's Expression.execute, shared by the features
+ * that observe evaluation (expression trace, logic coverage). Each observer
+ * registers an interceptor that is active only inside its own
+ * AsyncLocalStorage scope; an evaluation passes through the active
+ * interceptors in registration order, and straight to the engine when none
+ * is active.
+ */
+
+import { Context, Expression } from 'cql-execution';
+
+/**
+ * Observes expression evaluations while active
+ */
+export interface ExpressionInterceptor {
+  isActive(): boolean;
+  /** Evaluate the expression by calling next, returning its value */
+  intercept(expression: Expression, ctx: Context, next: () => Promise<unknown>): Promise<unknown>;
+}
+
+const interceptors: ExpressionInterceptor[] = [];
+let hookInstalled = false;
+
+/**
+ * Hook Expression.execute once, dispatching to the active interceptors
+ */
+function installHook(): void {
+  if (hookInstalled) return;
+  hookInstalled = true;
+
+  const execute = Expression.prototype.execute;
+  Expression.prototype.execute = function (this: Expression, ctx: Context): Promise<any> {
+    const active = interceptors.filter(interceptor => interceptor.isActive());
+    if (active.length === 0) return execute.call(this, ctx);
+
+    const run = (index: number): Promise<unknown> => index === active.length
+      ? execute.call(this, ctx)
+      : active[index].intercept(this, ctx, () => run(index + 1));
+    return run(0);
+  };
+}
+
+/**
+ * Register an interceptor for expression evaluations
+ */
+export function addExpressionInterceptor(interceptor: ExpressionInterceptor): void {
+  installHook();
+  if (!interceptors.includes(interceptor)) {
+    interceptors.push(interceptor);
+  }
+}
@@ -0,0 +1,415 @@
+/**
+ * Expression Trace
+ *
+ * Evaluates one define for a single patient and records the value of every
+ * nested expression: retrieves, query sources, with / such that clauses,
+ * where clauses, function calls with their arguments, and the bodies of the
+ * defines and functions they reference, in whichever library those live.
+ * Each traced expression is labelled with its CQL text from the ELM
+ * annotations, or its ELM type, referenced name and locator without them.
+ *
+ * Evaluations are observed through the shared engine hook (expression-hook)
+ * and attributed to their parent expression through AsyncLocalStorage, since
+ * query sources are evaluated concurrently. Expressions evaluated more than
+ * once (e.g. once per query row) are merged, with the value of each
+ * evaluation. The engine evaluates a define once per patient, so a define
+ * referenced again is shown with its value only.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { CodeService, Context, Expression, Library, PatientContext, PatientObject } from 'cql-execution';
+import { ElmNode, elmNode, elmNodes, elmString, elmStrings, isElmNode } from './cql-runner.js';
+import { addExpressionInterceptor, ExpressionInterceptor } from './expression-hook.js';
+
+/**
+ * Longest CQL text shown for an expression
+ */
+const MAX_TEXT_LENGTH = 100;
+
+/**
+ * Items of a list shown in a traced value
+ */
+const MAX_LIST_ITEMS = 3;
+
+/**
+ * Nesting of referenced defines and functions expanded in a trace
+ */
+const MAX_EXPANSION_DEPTH = 16;
+
+/**
+ * A traced expression and the expressions evaluated within it.
+ * Contains only plain data, so it can be passed between worker threads.
+ */
+export interface TraceNode {
+  library: string;        // Library identifier (id|version)
+  localId: string;        // Empty for references without a localId
+  type: string;           // ELM expression type
+  role?: string;          // Clause within the parent, e.g. "source E", "such that", "where"
+  text?: string;          // CQL text from the ELM annotations, else the type, referenced name and locator
+  note?: string;          // Why a referenced define or function body is not expanded
+  evaluations: number;
+  values: Array<{ value: string; count: number }>;   // Distinct values, in order of evaluation
+  children: TraceNode[];
+}
+
+/**
+ * ELM details of an expression, by localId
+ */
+interface ExpressionInfo {
+  type: string;
+  role?: string;
+  text?: string;
+  name?: string;          // Referenced define, function or parameter, or retrieved type
+  locator?: string;
+}
+
+/**
+ * A referenced define or function being expanded
+ */
+interface Expansion {
+  key: string;            // <library>|<alias>.<name> of the reference
+  defineEvaluated: boolean;
+}
+
+interface TraceScope {
+  node: TraceNode | null;                           // null: evaluations are not recorded
+  expressions: Map<string, Map<string, ExpressionInfo>>;
+  expansions: Expansion[];                          // Enclosing references, outermost first
+}
+
+const traceScope = new AsyncLocalStorage<TraceScope>();
+
+/**
+ * Collect the CQL text of each localId from an annotation's narrative tree
+ */
+function collectAnnotationText(s: ElmNode, texts: Map<string, string>): string {
+  let text = elmStrings(s, 'value').join('');
+  for (const child of elmNodes(s, 's')) {
+    text += collectAnnotationText(child, texts);
+  }
+  const localId = elmString(s, 'r');
+  if (localId !== undefined) {
+    texts.set(localId, text);
+  }
+  return text;
+}
+
+/**
+ * Label the clauses of queries and conditionals and the arguments of function calls, by localId
+ */
+function collectRoles(node: unknown, roles: Map<string, string>): void {
+  if (Array.isArray(node)) {
+    node.forEach(child => collectRoles(child, roles));
+    return;
+  }
+  if (!isElmNode(node)) return;
+
+  const label = (child: ElmNode | undefined, role: string) => {
+    const localId = elmString(child, 'localId');
+    if (localId !== undefined && !roles.has(localId)) roles.set(localId, role);
+  };
+
+  switch (elmString(node, 'type')) {
+    case 'Query':
+      for (const source of elmNodes(node, 'source')) {
+        label(source, `source ${elmString(source, 'alias')}`);
+        label(elmNode(source, 'expression'), `source ${elmString(source, 'alias')}`);
+      }
+      for (const rel of elmNodes(node, 'relationship')) {
+        const clause = `${elmString(rel, 'type') === 'Without' ? 'without' : 'with'} ${elmString(rel, 'alias')}`;
+        label(rel, clause);
+        label(elmNode(rel, 'expression'), clause);
+        label(elmNode(rel, 'suchThat'), 'such that');
+      }
+      for (const letClause of elmNodes(node, 'let')) {
+        label(elmNode(letClause, 'expression'), `let ${elmString(letClause, 'identifier')}`);
+      }
+      label(elmNode(node, 'where'), 'where');
+      label(elmNode(elmNode(node, 'return'), 'expression'), 'return');
+      break;
+    case 'If':
+      label(elmNode(node, 'condition'), 'if');
+      label(elmNode(node, 'then'), 'then');
+      label(elmNode(node, 'else'), 'else');
+      break;
+    case 'Case':
+      for (const item of elmNodes(node, 'caseItem')) {
+        label(elmNode(item, 'when'), 'when');
+        label(elmNode(item, 'then'), 'then');
+      }
+      label(elmNode(node, 'else'), 'else');
+      break;
+    case 'FunctionRef':
+      elmNodes(node, 'operand').forEach((operand, i) => label(operand, `argument ${i + 1}`));
+      break;
+  }
+
+  for (const [key, value] of Object.entries(node)) {
+    if (key !== 'annotation' && value && typeof value === 'object') collectRoles(value, roles);
+  }
+}
+
+/**
+ * Collect the type, referenced name and locator of each expression with a localId
+ */
+function collectDetails(node: unknown, details: Map<string, ExpressionInfo>): void {
+  if (Array.isArray(node)) {
+    node.forEach(child => collectDetails(child, details));
+    return;
+  }
+  if (!isElmNode(node)) return;
+
+  const localId = elmString(node, 'localId');
+  const type = elmString(node, 'type');
+  if (localId !== undefined && type) {
+    details.set(localId, {
+      type,
+      name: elmString(node, 'name') ?? elmString(node, 'dataType'),
+      locator: elmString(node, 'locator')
+    });
+  }
+  for (const [key, value] of Object.entries(node)) {
+    if (key !== 'annotation' && value && typeof value === 'object') collectDetails(value, details);
+  }
+}
+
+/**
+ * Index the expressions of a library and the libraries it includes, by library identifier and localId
+ */
+function indexExpressions(library: Library, index = new Map<string, Map<string, ExpressionInfo>>()): Map<string, Map<string, ExpressionInfo>> {
+  const { id, version } = library.source.library.identifier;
+  const key = `${id}${version ? `|${version}` : ''}`;
+  if (index.has(key)) return index;
+
+  const expressions = new Map<string, ExpressionInfo>();
+  index.set(key, expressions);
+
+  const texts = new Map<string, string>();
+  const roles = new Map<string, string>();
+  const details = new Map<string, ExpressionInfo>();
+
+  for (const def of elmNodes(elmNode(library.source.library, 'statements'), 'def')) {
+    for (const annotation of elmNodes(def, 'annotation')) {
+      const s = elmNode(annotation, 's');
+      if (s) collectAnnotationText(s, texts);
+    }
+    const expression = elmNode(def, 'expression');
+    const bodyId = elmString(expression, 'localId');
+    if (elmString(def, 'type') === 'FunctionDef' && bodyId !== undefined) roles.set(bodyId, 'returns');
+    collectRoles(expression, roles);
+    collectDetails(expression, details);
+    const localId = elmString(def, 'localId');
+    if (localId !== undefined) {
+      details.set(localId, {
+        type: elmString(def, 'type') ?? 'ExpressionDef',
+        name: elmString(def, 'name'),
+        locator: elmString(def, 'locator')
+      });
+    }
+  }
+
+  for (const localId of new Set([...texts.keys(), ...details.keys()])) {
+    const detail = details.get(localId);
+    expressions.set(localId, { ...detail, type: detail?.type ?? 'Expression', role: roles.get(localId), text: texts.get(localId) });
+  }
+
+  for (const included of Object.values(library.includes ?? {})) {
+    indexExpressions(included as Library, index);
+  }
+  return index;
+}
+
+/**
+ * Format a CQL or FHIR value for the trace
+ */
+export function summarizeValue(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    const items = value.slice(0, MAX_LIST_ITEMS).map(summarizeValue);
+    return `List(${value.length}): ${items.join(', ')}${value.length > MAX_LIST_ITEMS ? ', ...' : ''}`;
+  }
+  if (typeof value !== 'object') return typeof value === 'string' ? `'${value}'` : String(value);
+
+  const obj = value as { _json?: { resourceType?: string; id?: string }; _typeInfo?: { name?: string } };
+  // FHIR resources and elements (cql-exec-fhir)
+  if (obj._json !== undefined) {
+    const type = obj._json?.resourceType ?? obj._typeInfo?.name ?? 'FHIR';
+    if (obj._json?.resourceType) return `${type}/${obj._json.id ?? 'unknown'}`;
+    return `${type} ${JSON.stringify(obj._json).slice(0, 80)}`;
+  }
+  // CQL Code
+  if ('code' in obj && 'system' in obj) return `${obj.system}|${obj.code}`;
+  // DateTime, Interval, Quantity, Ratio
+  if (typeof obj.toString === 'function' && obj.toString !== Object.prototype.toString) return obj.toString();
+  // Tuple
+  return JSON.stringify(obj).slice(0, 100);
+}
+
+function record(node: TraceNode, value: string): void {
+  node.evaluations++;
+  const existing = node.values.find(v => v.value === value);
+  if (existing) {
+    existing.count++;
+  } else {
+    node.values.push({ value, count: 1 });
+  }
+}
+
+/**
+ * Label an expression without annotation text by its ELM type, referenced name and locator,
+ * e.g. Retrieve Encounter at 12:3-12:15 or ExpressionRef Common."Inpatient Encounters"
+ */
+function describeExpression(expression: Expression, type: string, info: ExpressionInfo | undefined): string {
+  const target = expression as Expression & { name?: string; library?: string };
+  const name = info?.name ?? target.name;
+  // Referenced names are quoted as in CQL; retrieved types drop their model namespace
+  const qualifiedName = name && (type.endsWith('Ref')
+    ? `${target.library ? `${target.library}.` : ''}"${name}"`
+    : name.replace(/^\{.*\}/, ''));
+  const locator = info?.locator ?? expression.locator;
+  return [type, qualifiedName, locator && `at ${locator}`].filter(Boolean).join(' ');
+}
+
+/**
+ * Record an expression's evaluation in the current trace
+ */
+async function traceExecution(
+  expression: Expression,
+  ctx: Context,
+  scope: TraceScope,
+  next: () => Promise<unknown>
+): Promise<unknown> {
+  const kind = expression.constructor.name;
+  const isReference = kind === 'ExpressionRef' || kind === 'FunctionRef';
+
+  // A referenced define evaluated for the first time: its body is traced beneath the reference
+  if (kind === 'ExpressionDef' || !scope.node || (expression.localId == null && !isReference)) {
+    if (kind === 'ExpressionDef' && scope.expansions.length > 0) {
+      scope.expansions[scope.expansions.length - 1].defineEvaluated = true;
+    }
+    return next();
+  }
+
+  const library = expression.getRecursiveLibraryIdentifier(ctx);
+  const localId = expression.localId != null ? String(expression.localId) : '';
+  const info = localId ? scope.expressions.get(library)?.get(localId) : undefined;
+  const type = info?.type ?? kind;
+  const text = info?.text?.replace(/\s+/g, ' ').trim() || describeExpression(expression, type, info);
+
+  // References without a localId are told apart by their text
+  let node = scope.node.children.find(c => c.localId === localId && c.library === library && (localId || c.text === text));
+  if (!node) {
+    node = { library, localId, type, role: info?.role, text, evaluations: 0, values: [], children: [] };
+    scope.node.children.push(node);
+  }
+
+  let childScope: TraceScope = { ...scope, node };
+  let expansion: Expansion | undefined;
+  if (isReference) {
+    const target = expression as Expression & { name?: string; library?: string };
+    const key = `${library}|${target.library ?? ''}.${target.name}`;
+    if (scope.expansions.some(e => e.key === key)) {
+      node.note = 'recursive reference, not expanded';
+      childScope = { ...scope, node: null };
+    } else if (scope.expansions.length >= MAX_EXPANSION_DEPTH) {
+      node.note = `not expanded beyond ${MAX_EXPANSION_DEPTH} nested references`;
+      childScope = { ...scope, node: null };
+    } else {
+      expansion = { key, defineEvaluated: false };
+      childScope = { ...scope, node, expansions: [...scope.expansions, expansion] };
+    }
+  }
+
+  try {
+    const value = await traceScope.run(childScope, next);
+    record(node, summarizeValue(value));
+    return value;
+  } catch (error) {
+    record(node, `error: ${(error as Error).message}`);
+    throw error;
+  } finally {
+    // The engine had the define's value already: its evaluation is traced where it was first referenced
+    if (kind === 'ExpressionRef' && expansion && !expansion.defineEvaluated && node.children.length === 0 && !node.note) {
+      node.note = 'evaluated earlier';
+    }
+  }
+}
+
+/**
+ * Records evaluations inside traceExpression
+ */
+const traceInterceptor: ExpressionInterceptor = {
+  isActive: () => traceScope.getStore() !== undefined,
+  intercept: (expression, ctx, next) => traceExecution(expression, ctx, traceScope.getStore()!, next)
+};
+
+/**
+ * Evaluate a define for one patient, recording its evaluation tree
+ *
+ * @param library - The library containing the define
+ * @param patient - The patient to evaluate
+ * @param name - Name of the define
+ * @returns The define's trace (an ExpressionDef node)
+ * @throws Error if the library has no define with that name
+ */
+export async function traceExpression(
+  library: Library,
+  patient: PatientObject,
+  name: string,
+  codeService?: CodeService,
+  parameters?: Record<string, unknown>
+): Promise<TraceNode> {
+  const definition = library.expressions[name];
+  if (!definition) {
+    throw new Error(`Define "${name}" not found in ${library.source.library.identifier.id}`);
+  }
+
+  addExpressionInterceptor(traceInterceptor);
+  const context = new PatientContext(library, patient, codeService, parameters);
+  const expressions = indexExpressions(library);
+  const { id, version } = library.source.library.identifier;
+  const libraryKey = `${id}${version ? `|${version}` : ''}`;
+  const localId = definition.localId != null ? String(definition.localId) : '';
+  const text = expressions.get(libraryKey)?.get(localId)?.text;
+
+  const root: TraceNode = {
+    library: libraryKey,
+    localId,
+    type: 'ExpressionDef',
+    text: text?.replace(/\s+/g, ' ').trim() ?? `define "${name}"`,
+    evaluations: 0,
+    values: [],
+    children: []
+  };
+
+  try {
+    const value = await traceScope.run({ node: root, expressions, expansions: [] }, () => definition.expression?.execute(context));
+    record(root, summarizeValue(value));
+  } catch (error) {
+    record(root, `error: ${(error as Error).message}`);
+  }
+  return root;
+}
+
+/**
+ * Format a trace as an indented tree, one line per traced expression
+ */
+export function formatTrace(node: TraceNode, indent = ''): string[] {
+  const label = `${node.role ? `${node.role}: ` : ''}${node.text ? truncate(node.text) : node.type}`;
+  const note = node.note ? ` (${node.note})` : '';
+  const values = node.evaluations === 1 || node.values.length === 1
+    ? `${node.values[0]?.value ?? 'not evaluated'}${node.evaluations > 1 ? ` (×${node.evaluations})` : ''}`
+    : node.evaluations === 0
+      ? 'not evaluated'
+      : `×${node.evaluations}: ${node.values.map(v => `${v.value} (${v.count})`).join(', ')}`;
+
+  return [
+    `${indent}${label} → ${values}${note}`,
+    ...node.children.flatMap(child => formatTrace(child, `${indent}  `))
+  ];
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH - 3)}...` : text;
+}
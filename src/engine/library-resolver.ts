@@ -0,0 +1,157 @@
+/**
+ * Included Library Resolver
+ *
+ * Resolves the `library.includes.def` entries of an ELM library to ELM
+ * files in search directories (searched recursively), following includes
+ * transitively so a Repository can be built from the full closure.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ELMLibrary, loadELM } from './cql-runner.js';
+
+/**
+ * Directories never searched for ELM files
+ */
+const SKIPPED_DIRECTORIES = new Set(['node_modules']);
+
+/**
+ * An ELM file found in the search paths
+ */
+export interface LibraryFile {
+  id: string;
+  version?: string;
+  filePath: string;
+  elm?: ELMLibrary;      // Already loaded (e.g. translated from a .cql file)
+}
+
+/**
+ * An include that could not be resolved
+ */
+export interface IncludeProblem {
+  includedBy: string;            // Library id and version of the including library
+  localIdentifier: string;
+  libraryId: string;
+  version?: string;              // Requested version
+  kind: 'missing' | 'version-mismatch';
+  availableVersions: string[];   // Versions found for a version mismatch
+}
+
+/**
+ * Result of resolving a library's includes
+ */
+export interface IncludeResolution {
+  libraries: ELMLibrary[];       // Transitive closure, excluding the main library
+  files: string[];               // ELM files of the resolved libraries
+  problems: IncludeProblem[];
+}
+
+function formatLibrary(id: string, version?: string): string {
+  return version ? `${id} version '${version}'` : id;
+}
+
+/**
+ * Describe an include problem for error output
+ */
+export function describeIncludeProblem(problem: IncludeProblem): string {
+  const requested = formatLibrary(problem.libraryId, problem.version);
+  if (problem.kind === 'missing') {
+    return `${problem.includedBy}: included library ${requested} (called ${problem.localIdentifier}) not found`;
+  }
+  return `${problem.includedBy}: included library ${requested} (called ${problem.localIdentifier}) has a version mismatch; found ${problem.availableVersions.join(', ')}`;
+}
+
+/**
+ * Find the ELM files in search directories, including nested directories
+ *
+ * @param searchPaths - Directories to search; missing directories are ignored
+ * @returns ELM files by library id
+ */
+export function indexLibraryFiles(searchPaths: string[]): Map<string, LibraryFile[]> {
+  const index = new Map<string, LibraryFile[]>();
+  const seen = new Set<string>();
+
+  const visit = (dir: string) => {
+    if (seen.has(dir)) return;
+    seen.add(dir);
+
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const filePath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!entry.name.startsWith('.') && !SKIPPED_DIRECTORIES.has(entry.name)) visit(filePath);
+        continue;
+      }
+      if (!entry.name.endsWith('.json')) continue;
+
+      try {
+        const identifier = loadELM(filePath).library?.identifier;
+        if (!identifier?.id) continue;  // Not ELM (e.g. a patient bundle)
+        const files = index.get(identifier.id) ?? [];
+        files.push({ id: identifier.id, version: identifier.version, filePath });
+        index.set(identifier.id, files);
+      } catch {
+        // Skip unreadable files
+      }
+    }
+  };
+
+  for (const searchPath of searchPaths) {
+    const dir = path.resolve(searchPath);
+    if (fs.existsSync(dir) && fs.statSync(dir).isDirectory()) visit(dir);
+  }
+  return index;
+}
+
+/**
+ * Resolve a library's includes, and theirs, from search directories
+ *
+ * @param main - The library being executed
+ * @param searchPaths - Directories searched recursively for included ELM files
+ * @param loaded - Libraries already loaded, preferred over ELM files in the search paths
+ */
+export function resolveIncludes(main: ELMLibrary, searchPaths: string[], loaded: LibraryFile[] = []): IncludeResolution {
+  const index = indexLibraryFiles(searchPaths);
+  for (const file of [...loaded].reverse()) {
+    index.set(file.id, [file, ...(index.get(file.id) ?? [])]);
+  }
+  const resolution: IncludeResolution = { libraries: [], files: [], problems: [] };
+
+  const mainId = main.library.identifier;
+  const resolved = new Set([`${mainId.id}|${mainId.version ?? ''}`]);
+  const queue: ELMLibrary[] = [main];
+
+  while (queue.length > 0) {
+    const library = queue.shift()!;
+    const { id, version } = library.library.identifier;
+
+    for (const include of library.library.includes?.def ?? []) {
+      const candidates = index.get(include.path) ?? [];
+      const match = include.version
+        ? candidates.find(c => c.version === include.version)
+        : candidates[0];
+
+      if (!match) {
+        resolution.problems.push({
+          includedBy: formatLibrary(id, version),
+          localIdentifier: include.localIdentifier,
+          libraryId: include.path,
+          version: include.version,
+          kind: candidates.length > 0 ? 'version-mismatch' : 'missing',
+          availableVersions: candidates.map(c => c.version ?? '(none)')
+        });
+        continue;
+      }
+
+      const key = `${match.id}|${match.version ?? ''}`;
+      if (resolved.has(key)) continue;
+      resolved.add(key);
+
+      const elm = match.elm ?? loadELM(match.filePath);
+      resolution.libraries.push(elm);
+      resolution.files.push(match.filePath);
+      queue.push(elm);
+    }
+  }
+
+  return resolution;
+}
@@ -0,0 +1,315 @@
+/**
+ * Logic Coverage
+ *
+ * Records which parts of the CQL logic a test deck exercises, and reports
+ * them against the ELM of every library:
+ * - defines that returned a result (not null, not an empty list, not false)
+ * - if/case branches that were taken
+ * - query where clauses that were true for at least one row
+ *
+ * Evaluations are recorded through the shared engine hook (expression-hook)
+ * while a test case runs (see recordCoverage); the data for each test case
+ * is plain so it can be returned from worker threads and merged.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { Expression } from 'cql-execution';
+import { ELMLibrary, ElmNode, elmNode, elmNodes, elmString, elmStrings, isElmNode } from './cql-runner.js';
+import { addExpressionInterceptor, ExpressionInterceptor } from './expression-hook.js';
+
+/**
+ * Expressions evaluated while running test cases, as <library>#<localId>
+ * (defines as <library>#define:<name>)
+ */
+export interface CoverageData {
+  evaluated: string[];
+  satisfied: string[];   // Evaluated to a value other than null, an empty list or false
+}
+
+export type CoverageItemKind = 'define' | 'branch' | 'where';
+
+/**
+ * A piece of logic that counts towards coverage
+ */
+export interface CoverageItem {
+  kind: CoverageItemKind;
+  label: string;          // e.g. define "Initial Population", else branch
+  definition: string;     // Enclosing define or function
+  covered: boolean;
+  evaluated: boolean;
+  localId?: string;       // Annotation element of the item
+}
+
+/**
+ * Coverage of one library
+ */
+export interface LibraryCoverage {
+  library: string;        // id|version
+  items: CoverageItem[];
+  listing: string[];      // Annotated CQL, one entry per line
+}
+
+interface CoverageRecorder {
+  evaluated: Set<string>;
+  satisfied: Set<string>;
+}
+
+const coverageScope = new AsyncLocalStorage<CoverageRecorder>();
+
+function isSatisfied(value: unknown): boolean {
+  if (value === null || value === undefined || value === false) return false;
+  return !(Array.isArray(value) && value.length === 0);
+}
+
+function libraryKey(elm: ELMLibrary): string {
+  const { id, version } = elm.library.identifier;
+  return `${id}${version ? `|${version}` : ''}`;
+}
+
+/**
+ * Records evaluations inside recordCoverage
+ */
+const coverageInterceptor: ExpressionInterceptor = {
+  isActive: () => coverageScope.getStore() !== undefined,
+  intercept: async (expression, ctx, next) => {
+    const recorder = coverageScope.getStore()!;
+    const value = await next();
+    const name = (expression as Expression & { name?: string }).name;
+    const ids = expression.constructor.name === 'ExpressionDef' && name ? [`define:${name}`] : [];
+    if (expression.localId != null) ids.push(String(expression.localId));
+    if (ids.length > 0) {
+      const library = expression.getRecursiveLibraryIdentifier(ctx);
+      for (const id of ids) {
+        recorder.evaluated.add(`${library}#${id}`);
+        if (isSatisfied(value)) recorder.satisfied.add(`${library}#${id}`);
+      }
+    }
+    return value;
+  }
+};
+
+/**
+ * Run a test case's evaluation, recording the expressions it evaluates into coverage
+ */
+export async function recordCoverage<T>(coverage: CoverageData, run: () => Promise<T>): Promise<T> {
+  addExpressionInterceptor(coverageInterceptor);
+  const recorder: CoverageRecorder = { evaluated: new Set(coverage.evaluated), satisfied: new Set(coverage.satisfied) };
+  try {
+    return await coverageScope.run(recorder, run);
+  } finally {
+    coverage.evaluated = [...recorder.evaluated];
+    coverage.satisfied = [...recorder.satisfied];
+  }
+}
+
+/**
+ * Merge the coverage of several test cases
+ */
+export function mergeCoverage(coverages: Array<CoverageData | undefined>): CoverageData {
+  const evaluated = new Set<string>();
+  const satisfied = new Set<string>();
+  for (const coverage of coverages) {
+    coverage?.evaluated.forEach(key => evaluated.add(key));
+    coverage?.satisfied.forEach(key => satisfied.add(key));
+  }
+  return { evaluated: [...evaluated], satisfied: [...satisfied] };
+}
+
+/**
+ * The localId recorded for an expression: its own, or (for wrappers without
+ * one, such as implicit conversions) that of the first nested expression
+ */
+function findLocalId(node: unknown): string | undefined {
+  if (!node || typeof node !== 'object') return undefined;
+  if (Array.isArray(node)) {
+    for (const child of node) {
+      const found = findLocalId(child);
+      if (found) return found;
+    }
+    return undefined;
+  }
+  if (!isElmNode(node)) return undefined;
+  const localId = elmString(node, 'localId');
+  if (localId !== undefined) return localId;
+  for (const [key, value] of Object.entries(node)) {
+    if (key === 'annotation') continue;
+    const found = findLocalId(value);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * Collect the branches and where clauses of an expression tree
+ */
+function collectItems(
+  node: unknown,
+  definition: string,
+  add: (kind: CoverageItemKind, label: string, definition: string, localId: string | undefined, satisfy: boolean) => void
+): void {
+  if (Array.isArray(node)) {
+    node.forEach(child => collectItems(child, definition, add));
+    return;
+  }
+  if (!isElmNode(node)) return;
+
+  const type = elmString(node, 'type');
+  if (type === 'If') {
+    add('branch', 'then branch', definition, findLocalId(elmNode(node, 'then')), false);
+    add('branch', 'else branch', definition, findLocalId(elmNode(node, 'else')), false);
+  } else if (type === 'Case') {
+    elmNodes(node, 'caseItem').forEach((item, i) => {
+      add('branch', `case item ${i + 1}`, definition, findLocalId(elmNode(item, 'then')), false);
+    });
+    add('branch', 'case else', definition, findLocalId(elmNode(node, 'else')), false);
+  } else if (type === 'Query' && elmNode(node, 'where')) {
+    add('where', 'where clause', definition, findLocalId(elmNode(node, 'where')), true);
+  }
+
+  for (const [key, value] of Object.entries(node)) {
+    if (key !== 'annotation' && value && typeof value === 'object') collectItems(value, definition, add);
+  }
+}
+
+/**
+ * Render an annotation's narrative tree, recording the text range of each localId
+ */
+function renderAnnotation(s: ElmNode, ranges: Map<string, { start: number; end: number }>, text = { value: '' }): string {
+  const start = text.value.length;
+  text.value += elmStrings(s, 'value').join('');
+  for (const child of elmNodes(s, 's')) {
+    renderAnnotation(child, ranges, text);
+  }
+  const localId = elmString(s, 'r');
+  if (localId !== undefined) {
+    ranges.set(localId, { start, end: text.value.length });
+  }
+  return text.value;
+}
+
+/**
+ * Annotated CQL listing of a define: a marker per line (✗ uncovered logic
+ * starts or lies on the line, ✓ covered) and notes naming what was never exercised
+ */
+function annotateDefinition(def: ElmNode, items: CoverageItem[]): string[] {
+  const annotation = elmNodes(def, 'annotation').map(a => elmNode(a, 's')).find(Boolean);
+  if (!annotation) return [];
+
+  const ranges = new Map<string, { start: number; end: number }>();
+  const text = renderAnnotation(annotation, ranges);
+  const locator = elmString(def, 'locator');
+  const firstLine = locator ? Number(locator.split(':')[0]) : NaN;
+
+  const lines = text.replace(/\s+$/, '').split('\n');
+  const width = isNaN(firstLine) ? 0 : String(firstLine + lines.length).length;
+  let offset = 0;
+  return lines.map((line, i) => {
+    const start = offset;
+    const end = offset + line.length;
+    offset = end + 1;
+
+    const onLine = items.filter(item => {
+      const range = item.localId ? ranges.get(item.localId) : undefined;
+      return range && range.start < end + 1 && range.end > start;
+    });
+    // Notes go on the line where the uncovered logic starts
+    const notes = onLine
+      .filter(item => !item.covered && ranges.get(item.localId!)!.start >= start)
+      .map(item => item.kind === 'define' ? `${item.label} ${item.evaluated ? 'never returned a result' : 'never evaluated'}`
+        : item.kind === 'where' ? `${item.label} ${item.evaluated ? 'never true' : 'never evaluated'}`
+          : `${item.label} never taken`);
+    const marker = onLine.some(item => !item.covered) ? '✗' : onLine.length > 0 ? '✓' : ' ';
+    const lineNumber = isNaN(firstLine) ? '' : `${String(firstLine + i).padStart(width)} `;
+    return `${marker} ${lineNumber}| ${line}${notes.length > 0 ? `   -- ${notes.join('; ')}` : ''}`;
+  });
+}
+
+/**
+ * Report coverage of every library against the ELM
+ *
+ * @param libraries - The main library and the libraries it includes
+ * @param coverage - Merged coverage of the test cases
+ * @returns Coverage per library, skipping libraries without defines, branches or where clauses
+ */
+export function analyzeCoverage(libraries: ELMLibrary[], coverage: CoverageData): LibraryCoverage[] {
+  const evaluated = new Set(coverage.evaluated);
+  const satisfied = new Set(coverage.satisfied);
+  const report: LibraryCoverage[] = [];
+
+  for (const elm of libraries) {
+    const library = libraryKey(elm);
+    const items: CoverageItem[] = [];
+    const listing: string[] = [];
+
+    for (const def of elmNodes(elmNode(elm.library, 'statements'), 'def')) {
+      const name = elmString(def, 'name') ?? '';
+      const defLocalId = elmString(def, 'localId');
+      const defItems: CoverageItem[] = [];
+      // Defines without a localId are implicit (e.g. Patient)
+      if (elmString(def, 'type') !== 'FunctionDef' && defLocalId !== undefined) {
+        const key = `${library}#define:${name}`;
+        defItems.push({
+          kind: 'define',
+          label: `define "${name}"`,
+          definition: name,
+          covered: satisfied.has(key),
+          evaluated: evaluated.has(key),
+          localId: defLocalId
+        });
+      }
+      collectItems(elmNode(def, 'expression'), name, (kind, label, definition, localId, satisfy) => {
+        if (!localId) return;
+        const key = `${library}#${localId}`;
+        defItems.push({
+          kind,
+          label,
+          definition,
+          covered: satisfy ? satisfied.has(key) : evaluated.has(key),
+          evaluated: evaluated.has(key),
+          localId
+        });
+      });
+
+      if (defItems.length === 0) continue;
+      items.push(...defItems);
+      const annotated = annotateDefinition(def, defItems);
+      if (annotated.length > 0) {
+        listing.push(...annotated, '');
+      } else {
+        // Without annotations (ELM translated without --annotations) only the items can be listed
+        for (const item of defItems) {
+          listing.push(`${item.covered ? '✓' : '✗'} | ${name}: ${item.kind === 'define' ? item.label : `${item.label} (localId ${item.localId})`}`);
+        }
+        listing.push('');
+      }
+    }
+
+    if (items.length > 0) {
+      report.push({ library, items, listing });
+    }
+  }
+  return report;
+}
+
+/**
+ * Covered and total items of a kind
+ */
+export function countCoverage(coverage: LibraryCoverage, kind?: CoverageItemKind): { covered: number; total: number } {
+  const items = kind ? coverage.items.filter(item => item.kind === kind) : coverage.items;
+  return { covered: items.filter(item => item.covered).length, total: items.length };
+}
+
+/**
+ * One-line coverage summary of a library, e.g.
+ * "Demo|1.0.000: 80% (defines 3/4, branches 1/1, where clauses 0/0)"
+ */
+export function formatCoverageSummary(coverage: LibraryCoverage): string {
+  const percent = ({ covered, total }: { covered: number; total: number }) =>
+    total === 0 ? '-' : `${Math.round((covered / total) * 100)}%`;
+  const count = (kind: CoverageItemKind) => {
+    const { covered, total } = countCoverage(coverage, kind);
+    return `${covered}/${total}`;
+  };
+  return `${coverage.library}: ${percent(countCoverage(coverage))} ` +
+    `(defines ${count('define')}, branches ${count('branch')}, where clauses ${count('where')})`;
+}
@@ -28,9 +28,9 @@ export function loadBundle(filePath: string): FHIRBundle {
 }
 
 /**
- * Load all patient bundles from the patients directory
+ * Get the paths of all patient bundle files in the patients directory
  */
-export function loadAllPatients(patientsDir: string): FHIRBundle[] {
+export function getPatientFiles(patientsDir: string): string[] {
   const absoluteDir = path.resolve(patientsDir);
 
   if (!fs.existsSync(absoluteDir)) {
@@ -38,7 +38,22 @@ export function loadAllPatients(patientsDir: string): FHIRBundle[] {
   }
 
   const files = fs.readdirSync(absoluteDir).filter(f => f.endsWith('.json'));
-  return files.map(file => loadBundle(path.join(absoluteDir, file)));
+  return files.map(file => path.join(absoluteDir, file));
+}
+
+/**
+ * Load all patient bundles from the patients directory
+ */
+export function loadAllPatients(patientsDir: string): FHIRBundle[] {
+  return getPatientFiles(patientsDir).map(file => loadBundle(file));
+}
+
+/**
+ * Get the id of the Patient resource in a bundle
+ */
+export function getBundlePatientId(bundle: FHIRBundle): string | undefined {
+  const patient = bundle.entry?.find(e => e.resource?.resourceType === 'Patient');
+  return patient?.resource.id as string | undefined;
 }
 
 /**
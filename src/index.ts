@@ -4,18 +4,27 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import * as path from 'path';
 import * as fs from 'fs';
+import { stripVTControlCharacters } from 'util';
 
 import {
   executeCQL,
+  ExecutionResult,
+  ELMLibrary,
   loadELM,
   validateELM,
   getELMList,
   getStatements,
+  createFunctionEvaluator,
+  elmNodes,
+  elmString,
 } from './engine/cql-runner.js';
 import {
-  createPatientSourceFromFile,
-  createPatientSourceFromDirectory,
+  createPatientSource,
+  getBundlePatientId,
+  getPatientFiles,
   getPatientList,
+  loadBundle,
+  FHIRBundle,
 } from './engine/patient-source.js';
 import {
   createCodeService,
@@ -23,24 +32,76 @@ import {
 } from './terminology/valueset-loader.js';
 import {
   loadMADiEPackage,
-  createRepository,
   listPackageLibraries,
+  loadMeasureMetadataFromFile,
   MeasureMetadata,
 } from './madie/package-loader.js';
 import {
   loadTestCases,
-  getPatientIdFromBundle,
+  reloadTestCase,
   TestCase,
-  PopulationCounts,
-  ExpectedGroup,
-  ObservationValues,
+  POPULATION_COUNT_KEYS,
 } from './madie/test-bundle-processor.js';
 import {
   loadValueSetsForMadie,
   getValueSetSummary,
 } from './madie/valueset-loader.js';
+import {
+  createTestCaseRunner,
+  createMeasurementPeriod,
+  evaluateMeasureGroups,
+  TestCaseResult,
+  TestCaseRunnerOptions,
+} from './madie/test-case-runner.js';
+import { describeIncludeProblem, IncludeResolution, LibraryFile, resolveIncludes } from './engine/library-resolver.js';
+import { IssueSeverity, validateLibrary } from './engine/elm-validator.js';
+import { formatTrace, traceExpression } from './engine/expression-trace.js';
+import { buildDependencyGraph, formatGraph, GRAPH_FORMATS, isGraphFormat } from './engine/dependency-graph.js';
+import { analyzeCoverage, formatCoverageSummary, mergeCoverage } from './engine/logic-coverage.js';
+import { getCqlList, isCqlPath } from './translator/cql-source.js';
+import {
+  createTranslator,
+  CqlTranslationError,
+  formatTranslatorMessage,
+  translateCqlWithIncludes,
+  TRANSLATOR_ENV
+} from './translator/translate-cql.js';
+import { runTestCasesInWorkers, TestCaseWorkerData } from './madie/worker-pool.js';
+import { isZipPath } from './madie/zip-archive.js';
+import { loadProjectConfig, ProjectConfig, PROJECT_CONFIG_FILE } from './madie/project-config.js';
+import { createTestSelection, hasSelectors, selectTestCases } from './madie/test-selection.js';
+import {
+  checkKnownFailure,
+  loadKnownFailures,
+  KnownFailure,
+  KNOWN_FAILURES_FILE,
+} from './madie/known-failures.js';
+import {
+  buildIndividualMeasureReport,
+  buildSummaryMeasureReport,
+  aggregateGroups,
+  PatientMeasureResults,
+  SummaryGroup,
+} from './measure/measure-report.js';
+import { POPULATION_LABELS } from './measure/group-comparison.js';
+import { formatValue, isUnexplainedFailure } from './reporters/format.js';
+import { buildJsonOutput } from './reporters/json-reporter.js';
+import { createPrettyReporter, formatResultCounts, formatResultsLine } from './reporters/pretty-reporter.js';
+import { createReporter, isReporterName, ReporterName, REPORTER_NAMES } from './reporters/create-reporter.js';
+import { Reporter, ReporterContext, TestCaseReport } from './reporters/types.js';
+import { isInside, watchPaths } from './watch/file-watcher.js';
+import { compareRuns, loadRun, TestCaseChange } from './compare/run-comparison.js';
+import {
+  classifyMadieChanges,
+  compareTestRuns,
+  comparePatientResults,
+  printPatientDeltas,
+  printTestRunDelta,
+  snapshotExpressions,
+  MadieWatchPaths,
+} from './watch/changes.js';
 import { PatientSource } from 'cql-exec-fhir';
-import { Library, Executor, DateTime, Interval } from 'cql-execution';
+import { Library, Repository } from 'cql-execution';
 
 const program = new Command();
 
@@ -58,414 +119,164 @@ function buildGroupNames(metadata: MeasureMetadata | null): Record<string, strin
 }
 
 /**
- * Check if measure has multiple groups with observations
+ * Check if measure results should be reported per group: multi-group
+ * measures with observations, or any group with populations beyond
+ * the Initial Population (e.g. proportion measures)
  */
-function hasMultipleGroupsWithObservations(metadata: MeasureMetadata | null): boolean {
-  if (!metadata || metadata.groupCount <= 1) {
+function hasGroupLevelResults(metadata: MeasureMetadata | null): boolean {
+  if (!metadata) {
     return false;
   }
-  return metadata.groups.some(g => g.hasObservations);
-}
-
-/**
- * Actual group results calculated from CQL execution
- */
-interface ActualGroup {
-  groupId: string;
-  populations: PopulationCounts;
-  measureScore: number;
-}
-
-/**
- * Group comparison result
- */
-interface GroupComparison {
-  groupId: string;
-  expected: PopulationCounts;
-  actual: PopulationCounts;
-  expectedScore: number;
-  actualScore: number;
-  passed: boolean;
+  return hasMultipleGroupsWithObservations(metadata) ||
+    metadata.groups.some(g => g.populations.some(p => p.code !== 'initial-population'));
 }
 
 /**
- * Helper to get encounter IDs from expression result
- * Handles both string IDs and {value: 'id'} objects
+ * Check if measure has multiple groups with observations
  */
-function getEncounterIds(val: unknown): Set<string> {
-  const ids = new Set<string>();
-  if (Array.isArray(val)) {
-    for (const item of val) {
-      if (item && typeof item === 'object') {
-        const enc = item as Record<string, unknown>;
-        if (enc.id) {
-          // Handle both string IDs and {value: 'id'} objects
-          if (typeof enc.id === 'string') {
-            ids.add(enc.id);
-          } else if (typeof enc.id === 'object' && enc.id !== null) {
-            const idObj = enc.id as Record<string, unknown>;
-            if (idObj.value) {
-              ids.add(String(idObj.value));
-            }
-          }
-        }
-      }
-    }
+function hasMultipleGroupsWithObservations(metadata: MeasureMetadata | null): boolean {
+  if (!metadata || metadata.groupCount <= 1) {
+    return false;
   }
-  return ids;
+  return metadata.groups.some(g => g.hasObservations);
 }
 
 /**
- * Get encounter ID from an encounter object
+ * Print measure-level results aggregated across patients
  */
-function getEncounterId(enc: Record<string, unknown>): string {
-  if (enc.id) {
-    if (typeof enc.id === 'string') {
-      return enc.id;
-    } else if (typeof enc.id === 'object' && enc.id !== null) {
-      const idObj = enc.id as Record<string, unknown>;
-      if (idObj.value) {
-        return String(idObj.value);
-      }
+function printMeasureSummary(
+  summary: SummaryGroup[],
+  groupNames: Record<string, string>,
+  log: (text: string) => void = console.log
+): void {
+  log(chalk.cyan(`\nMeasure summary (${summary[0]?.patientCount ?? 0} patients):`));
+  for (const group of summary) {
+    const counts = Object.values(POPULATION_COUNT_KEYS)
+      .filter(key => group.populations[key] > 0)
+      .map(key => `${POPULATION_LABELS[key]}=${group.populations[key]}`)
+      .join(', ');
+    log(chalk.gray(`  ${group.groupId} (${groupNames[group.groupId] || group.groupId}): ${counts || 'no members'}`));
+    for (const obs of group.observations) {
+      log(chalk.gray(`    ${obs.populationId}: ${obs.aggregateMethod} of ${obs.count} = ${obs.aggregate}`));
     }
+    log(chalk.gray(`    Score: ${group.measureScore}`));
   }
-  return '';
 }
 
 /**
- * Get encounter period start date for sorting
+ * Print a patient's expression results (or a single expression)
  */
-function getEncounterStart(enc: Record<string, unknown>): string {
-  const period = enc.period as Record<string, unknown> | undefined;
-  if (period?.start) {
-    if (typeof period.start === 'string') {
-      return period.start;
-    } else if (typeof period.start === 'object' && period.start !== null) {
-      const startObj = period.start as Record<string, unknown>;
-      if (startObj.value) {
-        return String(startObj.value);
+function printPatientResults(result: ExecutionResult, expression?: string): void {
+  console.log(chalk.green(`\nPatient: ${result.patientId}`));
+
+  const expressions = expression
+    ? { [expression]: result.results[expression] }
+    : result.results;
+
+  for (const [name, value] of Object.entries(expressions)) {
+    // Skip internal expressions (starting with __)
+    if (name.startsWith('__')) continue;
+
+    console.log(chalk.cyan(`  ${name}:`));
+    if (value === null || value === undefined) {
+      console.log(chalk.gray('    null'));
+    } else if (Array.isArray(value)) {
+      if (value.length === 0) {
+        console.log(chalk.gray('    []'));
+      } else {
+        console.log(chalk.white(`    [${value.length} items]`));
+        value.slice(0, 3).forEach((item, i) => {
+          console.log(chalk.gray(`      ${i + 1}. ${formatValue(item)}`));
+        });
+        if (value.length > 3) {
+          console.log(chalk.gray(`      ... and ${value.length - 3} more`));
+        }
       }
+    } else if (typeof value === 'object') {
+      console.log(chalk.white(`    ${formatValue(value)}`));
+    } else {
+      console.log(chalk.white(`    ${value}`));
     }
   }
-  return '';
 }
 
 /**
- * Get sorted encounter IDs from expression result
- * Sorts by encounter period start date (ascending)
+ * Parse an optional numeric CLI option, exiting on invalid input
  */
-function getSortedEncounterIds(val: unknown): string[] {
-  if (!Array.isArray(val)) return [];
-
-  const encounters: Array<{ id: string; start: string }> = [];
-  for (const item of val) {
-    if (item && typeof item === 'object') {
-      const enc = item as Record<string, unknown>;
-      const id = getEncounterId(enc);
-      const start = getEncounterStart(enc);
-      if (id) {
-        encounters.push({ id, start });
-      }
-    }
+function parseNumberOption(value: string | number | undefined, name: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
   }
-
-  // Keep encounters in original order (no sorting)
-  // Comparison will sort both expected and actual values
-
-  return encounters.map(e => e.id);
+  const parsed = Number(value);
+  if (isNaN(parsed) || parsed < 0) {
+    console.error(chalk.red(`Error: ${name} must be a non-negative number, got "${value}"`));
+    process.exit(1);
+  }
+  return parsed;
 }
 
 /**
- * Calculate observation values from expression results
- * Observations are calculated PER ENCOUNTER and summed
+ * Collect a repeatable CLI option into an array
  */
-function calculateObservations(expressions: Record<string, unknown>): {
-  obs1: number;
-  obs2: number;
-  obs3: number;
-  obs4: number;
-} {
-  // Get encounter ID sets for each relevant expression
-  const measurePop = getEncounterIds(expressions['Measure Population']);
-  const screeningOrReferral = getEncounterIds(expressions['Encounters with Malnutrition Risk Screening or with Dietitian Referral']);
-  const atRiskOrReferral = getEncounterIds(expressions['Encounters with Malnutrition Risk Screening At Risk or with Dietitian Referral']);
-  const notAtRiskWithoutReferral = getEncounterIds(expressions['Encounters with Malnutrition Not At Risk Screening and without Dietitian Referral']);
-  const assessmentWithStatus = getEncounterIds(expressions['Encounter With Most Recent Nutrition Assessment And Identified Status']);
-  const modSevereAssessment = getEncounterIds(expressions['Encounter With Most Recent Nutrition Assessment Status of Moderately Or Severely Malnourished']);
-  const notMildAssessment = getEncounterIds(expressions['Encounter With Most Recent Nutrition Assessment Status of Not or Mildly Malnourished']);
-  const diagnosis = getEncounterIds(expressions['Encounters with Malnutrition Diagnosis']);
-  const carePlan = getEncounterIds(expressions['Encounters with Nutrition Care Plan']);
-
-  let obs1 = 0, obs2 = 0, obs3 = 0, obs4 = 0;
-
-  // For each encounter in measure population, calculate observations
-  for (const encId of measurePop) {
-    // Obs 1: Screening or Referral for THIS encounter
-    if (screeningOrReferral.has(encId)) {
-      obs1 += 1;
-    }
-
-    // Obs 2: Assessment with Status for THIS encounter
-    if (notAtRiskWithoutReferral.has(encId)) {
-      // Not at risk without referral = 0
-    } else if (atRiskOrReferral.has(encId) && assessmentWithStatus.has(encId)) {
-      obs2 += 1;
-    }
-
-    // Obs 3: Diagnosis for THIS encounter (only if moderate/severe)
-    if (notAtRiskWithoutReferral.has(encId)) {
-      // Not at risk without referral = 0
-    } else if (atRiskOrReferral.has(encId) &&
-               modSevereAssessment.has(encId) &&
-               diagnosis.has(encId)) {
-      obs3 += 1;
-    }
-
-    // Obs 4: Care Plan for THIS encounter (only if moderate/severe)
-    if (notAtRiskWithoutReferral.has(encId)) {
-      // Not at risk without referral = 0
-    } else if (atRiskOrReferral.has(encId) &&
-               modSevereAssessment.has(encId) &&
-               carePlan.has(encId)) {
-      obs4 += 1;
-    }
-  }
-
-  return { obs1, obs2, obs3, obs4 };
+function collectOption(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
 }
 
 /**
- * Calculate actual group results from CQL expression results
- * CMS986 has 6 groups but they all share the same IP/MP/MPE
- * Groups 1-4 have different observation calculations, Groups 5-6 are aggregates
+ * Load a library from ELM JSON, or translate it from a .cql file, printing
+ * translator warnings and errors (with line and column)
+ *
+ * @returns The ELM and the translated .cql libraries it includes; null when the CQL has errors
  */
-function calculateActualGroups(expressions: Record<string, unknown>): ActualGroup[] {
-  // Get core population counts
-  const ipResult = expressions['Initial Population'];
-  const mpResult = expressions['Measure Population'];
-  const mpeResult = expressions['Measure Population Exclusion'];
-
-  const ipCount = Array.isArray(ipResult) ? ipResult.length : 0;
-  const mpCount = Array.isArray(mpResult) ? mpResult.length : 0;
-  const mpeCount = Array.isArray(mpeResult) ? mpeResult.length : 0;
-
-  const { obs1, obs2, obs3, obs4 } = calculateObservations(expressions);
-
-  // Create 6 groups matching the MeasureReport structure
-  const groups: ActualGroup[] = [];
-
-  // Groups 1-4: Each has the same IP/MP/MPE but different observation values
-  // Each group's obs1 holds that group's specific observation count
-  const obsValues = [obs1, obs2, obs3, obs4];
-  for (let i = 1; i <= 4; i++) {
-    groups.push({
-      groupId: `Group_${i}`,
-      populations: {
-        initialPopulation: ipCount,
-        measurePopulation: mpCount,
-        measurePopulationExclusion: mpeCount,
-        observations: { obs1: obsValues[i - 1], obs2: 0, obs3: 0, obs4: 0 }
-      },
-      measureScore: mpCount > 0 ? obsValues[i - 1] / mpCount : 0
-    });
+async function loadLibrary(
+  filePath: string,
+  translatorSpec: string | undefined,
+  searchPaths: string[],
+  log: (text: string) => void = console.log
+): Promise<{ elm: ELMLibrary; includes: LibraryFile[] } | null> {
+  if (!isCqlPath(filePath)) {
+    return { elm: loadELM(filePath), includes: [] };
   }
 
-  // Groups 5-6: Per-encounter calculations then summed
-  // Get all expression sets needed for per-encounter obs calculation
-  const measurePop = getEncounterIds(expressions['Measure Population']);
-  // Get SORTED encounter IDs based on encounter period start date
-  const sortedEncounterIds = getSortedEncounterIds(expressions['Measure Population']);
-  const screeningOrReferral = getEncounterIds(expressions['Encounters with Malnutrition Risk Screening or with Dietitian Referral']);
-  const notAtRiskWithoutReferral = getEncounterIds(expressions['Encounters with Malnutrition Not At Risk Screening and without Dietitian Referral']);
-  const notMildAssessment = getEncounterIds(expressions['Encounter With Most Recent Nutrition Assessment Status of Not or Mildly Malnourished']);
-  const assessmentWithStatus = getEncounterIds(expressions['Encounter With Most Recent Nutrition Assessment And Identified Status']);
-  const atRiskOrReferral = getEncounterIds(expressions['Encounters with Malnutrition Risk Screening At Risk or with Dietitian Referral']);
-  const modSevereAssessment = getEncounterIds(expressions['Encounter With Most Recent Nutrition Assessment Status of Moderately Or Severely Malnourished']);
-  const diagnosis = getEncounterIds(expressions['Encounters with Malnutrition Diagnosis']);
-  const carePlan = getEncounterIds(expressions['Encounters with Nutrition Care Plan']);
-
-  let totalComponentsScore = 0;  // Group 5: sum of per-encounter scores
-  let totalPercentageSum = 0;    // Group 6: sum of per-encounter percentages
-
-  // Calculate per-encounter values and sum them (using sorted order)
-  for (const encId of sortedEncounterIds) {
-    // Calculate this encounter's obs1-4 values (0 or 1 each)
-    let encObs1 = 0, encObs2 = 0, encObs3 = 0, encObs4 = 0;
-
-    // Obs 1: Screening or Referral
-    if (screeningOrReferral.has(encId)) {
-      encObs1 = 1;
-    }
-
-    // Obs 2: Assessment with Status (only if at-risk or referral)
-    if (!notAtRiskWithoutReferral.has(encId) &&
-        atRiskOrReferral.has(encId) &&
-        assessmentWithStatus.has(encId)) {
-      encObs2 = 1;
-    }
-
-    // Obs 3: Diagnosis (only if at-risk/referral AND moderate/severe)
-    if (!notAtRiskWithoutReferral.has(encId) &&
-        atRiskOrReferral.has(encId) &&
-        modSevereAssessment.has(encId) &&
-        diagnosis.has(encId)) {
-      encObs3 = 1;
-    }
-
-    // Obs 4: Care Plan (only if at-risk/referral AND moderate/severe)
-    if (!notAtRiskWithoutReferral.has(encId) &&
-        atRiskOrReferral.has(encId) &&
-        modSevereAssessment.has(encId) &&
-        carePlan.has(encId)) {
-      encObs4 = 1;
-    }
-
-    // This encounter's total score (0-4)
-    const encScore = encObs1 + encObs2 + encObs3 + encObs4;
-    totalComponentsScore += encScore;
-
-    // Calculate this encounter's eligible occurrences based on CQL logic
-    let encEligible: number;
-    if (screeningOrReferral.has(encId) && notAtRiskWithoutReferral.has(encId)) {
-      encEligible = 1;  // Not at risk without referral
-    } else if (atRiskOrReferral.has(encId) &&
-               (notMildAssessment.has(encId) || !assessmentWithStatus.has(encId))) {
-      encEligible = 2;  // At risk but not/mildly malnourished or no assessment
-    } else if (screeningOrReferral.has(encId)) {
-      encEligible = 4;  // Full pathway (at risk + mod/severe)
-    } else {
-      encEligible = 2;  // Default
+  const relative = (file: string) => path.relative(process.cwd(), file) || file;
+  try {
+    const translation = await translateCqlWithIncludes(filePath, createTranslator(translatorSpec), searchPaths);
+    for (const t of [{ ...translation.main, filePath }, ...translation.includes]) {
+      t.messages.forEach(m => console.warn(chalk.yellow(formatTranslatorMessage(relative(t.filePath), m))));
+      log(chalk.gray(`Translated ${relative(t.filePath)}${t.cached ? ' (cached)' : ''}`));
     }
-
-    // This encounter's percentage
-    const encPercentage = encEligible > 0 ? (encScore / encEligible) * 100 : 0;
-    totalPercentageSum += encPercentage;
-  }
-
-  // Groups 5 and 6: Per-encounter values
-  // obs1-4 represent per-encounter scores (not per-observation-type totals)
-  // Use sorted encounter order to match MeasureReport ordering
-  const encounterScores: number[] = [];      // Group 5: total score per encounter (0-4)
-  const encounterPercentages: number[] = []; // Group 6: percentage per encounter
-
-  for (const encId of sortedEncounterIds) {
-    let encObs1 = screeningOrReferral.has(encId) ? 1 : 0;
-    let encObs2 = (!notAtRiskWithoutReferral.has(encId) && atRiskOrReferral.has(encId) && assessmentWithStatus.has(encId)) ? 1 : 0;
-    let encObs3 = (!notAtRiskWithoutReferral.has(encId) && atRiskOrReferral.has(encId) && modSevereAssessment.has(encId) && diagnosis.has(encId)) ? 1 : 0;
-    let encObs4 = (!notAtRiskWithoutReferral.has(encId) && atRiskOrReferral.has(encId) && modSevereAssessment.has(encId) && carePlan.has(encId)) ? 1 : 0;
-
-    const encScore = encObs1 + encObs2 + encObs3 + encObs4;
-    encounterScores.push(encScore);
-
-    let encEligible: number;
-    if (screeningOrReferral.has(encId) && notAtRiskWithoutReferral.has(encId)) {
-      encEligible = 1;
-    } else if (atRiskOrReferral.has(encId) && (notMildAssessment.has(encId) || !assessmentWithStatus.has(encId))) {
-      encEligible = 2;
-    } else if (screeningOrReferral.has(encId)) {
-      encEligible = 4;
-    } else {
-      encEligible = 2;
+    return {
+      elm: translation.main.elm,
+      includes: translation.includes.map(t => ({
+        id: t.elm.library.identifier.id,
+        version: t.elm.library.identifier.version,
+        filePath: t.filePath,
+        elm: t.elm
+      }))
+    };
+  } catch (error) {
+    if (!(error instanceof CqlTranslationError)) throw error;
+    console.error(chalk.red('CQL translation errors:'));
+    for (const message of error.messages) {
+      const color = message.severity === 'error' ? chalk.red : chalk.yellow;
+      console.error(color(`  ${formatTranslatorMessage(relative(error.filePath), message)}`));
     }
-    const encPct = encEligible > 0 ? Math.round((encScore / encEligible) * 100) : 0;
-    encounterPercentages.push(encPct);
+    return null;
   }
-
-  // Group 5: Total Malnutrition Components Score (per-encounter totals)
-  groups.push({
-    groupId: 'Group_5',
-    populations: {
-      initialPopulation: ipCount,
-      measurePopulation: mpCount,
-      measurePopulationExclusion: mpeCount,
-      observations: {
-        obs1: encounterScores[0] || 0,
-        obs2: encounterScores[1] || 0,
-        obs3: encounterScores[2] || 0,
-        obs4: encounterScores[3] || 0
-      }
-    },
-    measureScore: mpCount > 0 ? totalComponentsScore / mpCount : 0
-  });
-
-  // Group 6: Total Malnutrition Care Score as Percentage (per-encounter percentages)
-  groups.push({
-    groupId: 'Group_6',
-    populations: {
-      initialPopulation: ipCount,
-      measurePopulation: mpCount,
-      measurePopulationExclusion: mpeCount,
-      observations: {
-        obs1: encounterPercentages[0] || 0,
-        obs2: encounterPercentages[1] || 0,
-        obs3: encounterPercentages[2] || 0,
-        obs4: encounterPercentages[3] || 0
-      }
-    },
-    measureScore: mpCount > 0 ? totalPercentageSum / (mpCount * 100) : 0
-  });
-
-  return groups;
 }
 
 /**
- * Compare expected and actual groups
+ * Write a MeasureReport to a file, creating its directory if needed
  */
-function compareGroups(expected: ExpectedGroup[], actual: ActualGroup[]): GroupComparison[] {
-  const comparisons: GroupComparison[] = [];
-
-  for (let i = 0; i < Math.max(expected.length, actual.length); i++) {
-    const exp = expected[i];
-    const act = actual[i];
-
-    if (!exp || !act) continue;
-
-    // Compare population counts
-    const popMatch =
-      exp.populations.initialPopulation === act.populations.initialPopulation &&
-      exp.populations.measurePopulation === act.populations.measurePopulation &&
-      exp.populations.measurePopulationExclusion === act.populations.measurePopulationExclusion;
-
-    // For Groups 1-4: compare obs1 directly (single observation per group)
-    // For Groups 5-6: compare sorted observation sets (encounter order doesn't matter)
-    let obsMatch: boolean;
-    if (exp.groupId === 'Group_5' || exp.groupId === 'Group_6') {
-      // Sort both expected and actual observation values for comparison
-      // This handles the case where encounters are in different order
-      const expObs = [
-        exp.populations.observations.obs1,
-        exp.populations.observations.obs2,
-        exp.populations.observations.obs3,
-        exp.populations.observations.obs4
-      ].filter(v => v !== 0).sort((a, b) => b - a);  // Non-zero values, descending
-
-      const actObs = [
-        act.populations.observations.obs1,
-        act.populations.observations.obs2,
-        act.populations.observations.obs3,
-        act.populations.observations.obs4
-      ].filter(v => v !== 0).sort((a, b) => b - a);  // Non-zero values, descending
-
-      obsMatch = expObs.length === actObs.length &&
-                 expObs.every((v, idx) => v === actObs[idx]);
-    } else {
-      // Groups 1-4: direct comparison of obs1
-      obsMatch = exp.populations.observations.obs1 === act.populations.observations.obs1;
-    }
-
-    const passed = popMatch && obsMatch;
-
-    comparisons.push({
-      groupId: exp.groupId,
-      expected: exp.populations,
-      actual: act.populations,
-      expectedScore: exp.measureScore,
-      actualScore: act.measureScore,
-      passed
-    });
-  }
-
-  return comparisons;
+function writeMeasureReport(
+  filePath: string,
+  report: unknown,
+  log: (text: string) => void = console.log
+): void {
+  const outputPath = path.resolve(filePath);
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  fs.writeFileSync(outputPath, JSON.stringify(report, null, 2));
+  log(chalk.green(`Summary MeasureReport saved to: ${outputPath}`));
 }
 
 // Default directories
@@ -481,12 +292,19 @@ program
 // Run command - execute CQL
 program
   .command('run <elm-file>')
-  .description('Execute a CQL library (ELM JSON) against patient data')
+  .description('Execute a CQL library (ELM JSON or .cql) against patient data')
   .option('-p, --patient <bundle>', 'Path to a specific patient bundle JSON')
   .option('-d, --patients-dir <dir>', 'Directory containing patient bundles', DEFAULT_PATIENTS_DIR)
   .option('-v, --valuesets-dir <dir>', 'Directory containing ValueSet JSON files', DEFAULT_VALUESETS_DIR)
   .option('-e, --expression <name>', 'Execute only a specific expression')
+  .option('--trace <define>', 'Show the evaluation tree of a define for each patient')
   .option('--json', 'Output results as JSON')
+  .option('--measure <file>', 'Measure resource JSON used to calculate populations')
+  .option('--period <start/end>', 'Measurement Period, e.g. 2025-01-01/2025-12-31 (default with --measure: its effectivePeriod)')
+  .option('--summary-report <file>', 'Write a summary MeasureReport across all patients (requires --measure)')
+  .option('--lib-path <dir>', 'Additional directory searched (recursively) for included libraries (repeatable)', collectOption)
+  .option('--translator <jar|url>', `CQL-to-ELM translator for .cql input: translator jar or service URL (default: $${TRANSLATOR_ENV})`)
+  .option('--watch', 'Re-execute when the ELM, Measure, patient or ValueSet files change')
   .action(async (elmFile: string, options) => {
     try {
       // Validate ELM file exists
@@ -496,95 +314,300 @@ program
         process.exit(1);
       }
 
-      // Load and validate ELM
-      const elm = loadELM(elmPath);
-      const validation = validateELM(elm);
+      // Included libraries are looked up next to the ELM file and in --lib-path directories
+      const librarySearchPaths = [path.dirname(elmPath), ...(options.libPath ?? [])];
+      let included: IncludeResolution = { libraries: [], files: [], problems: [] };
+
+      // Load (or translate) and validate ELM and resolve its includes, reporting errors; null when invalid
+      const loadValidELM = async (): Promise<ELMLibrary | null> => {
+        const library = await loadLibrary(elmPath, options.translator, librarySearchPaths);
+        if (!library) return null;
+        const loaded = library.elm;
+        const validation = validateELM(loaded);
+
+        if (!validation.valid) {
+          console.error(chalk.red('ELM validation errors:'));
+          validation.errors.forEach(e => console.error(chalk.red(`  - ${e}`)));
+          return null;
+        }
+
+        // Show warnings
+        validation.errors
+          .filter(e => e.startsWith('Warning'))
+          .forEach(w => console.warn(chalk.yellow(w)));
+
+        const resolution = resolveIncludes(loaded, librarySearchPaths, library.includes);
+        if (resolution.problems.length > 0) {
+          console.error(chalk.red('Unresolved included libraries:'));
+          resolution.problems.forEach(p => console.error(chalk.red(`  - ${describeIncludeProblem(p)}`)));
+          console.error(chalk.gray(`Searched: ${librarySearchPaths.map(p => path.resolve(p)).join(', ')} (use --lib-path <dir> to add directories)`));
+          return null;
+        }
+        included = resolution;
+        return loaded;
+      };
+
+      let elm = await loadValidELM();
+      if (!elm) {
+        process.exit(1);
+      }
+      if (options.trace && !getStatements(elm).includes(options.trace)) {
+        console.error(chalk.red(`Error: Define "${options.trace}" not found in ${elm.library.identifier.id}`));
+        process.exit(1);
+      }
+
+      // Load the Measure used for population calculation
+      const loadMeasure = (): MeasureMetadata | null => {
+        const metadata = loadMeasureMetadataFromFile(path.resolve(options.measure));
+        if (!metadata) {
+          console.error(chalk.red(`Error: Not a Measure resource: ${options.measure}`));
+        }
+        return metadata;
+      };
 
-      if (!validation.valid) {
-        console.error(chalk.red('ELM validation errors:'));
-        validation.errors.forEach(e => console.error(chalk.red(`  - ${e}`)));
+      let measureMetadata: MeasureMetadata | null = null;
+      if (options.measure) {
+        measureMetadata = loadMeasure();
+        if (!measureMetadata) {
+          process.exit(1);
+        }
+      } else if (options.summaryReport) {
+        console.error(chalk.red('Error: --summary-report requires --measure'));
         process.exit(1);
       }
 
-      // Show warnings
-      validation.errors
-        .filter(e => e.startsWith('Warning'))
-        .forEach(w => console.warn(chalk.yellow(w)));
+      let period = measureMetadata?.effectivePeriod ?? null;
+      if (options.period) {
+        const [start, end] = String(options.period).split('/');
+        if (!start || !end || isNaN(Date.parse(start)) || isNaN(Date.parse(end))) {
+          console.error(chalk.red(`Error: Invalid period "${options.period}", expected <start>/<end>`));
+          process.exit(1);
+        }
+        period = { start, end };
+      }
+      if (options.summaryReport && !period) {
+        console.error(chalk.red('Error: Measure has no effectivePeriod; specify --period'));
+        process.exit(1);
+      }
 
-      // Create patient source
-      let patientSource;
+      // Load patient bundles, keyed by file so watch mode can reload single files
+      let patientFiles: string[];
       if (options.patient) {
         const patientPath = path.resolve(options.patient);
         if (!fs.existsSync(patientPath)) {
           console.error(chalk.red(`Error: Patient bundle not found: ${patientPath}`));
           process.exit(1);
         }
-        patientSource = createPatientSourceFromFile(patientPath);
+        patientFiles = [patientPath];
       } else {
-        patientSource = createPatientSourceFromDirectory(options.patientsDir);
+        patientFiles = getPatientFiles(options.patientsDir);
       }
+      const bundles = new Map(patientFiles.map(file => [file, loadBundle(file)]));
 
       // Create code service
-      const codeService = createCodeService(options.valuesetsDir);
+      let codeService = createCodeService(options.valuesetsDir);
 
       // Execute CQL
       console.log(chalk.blue(`\nExecuting: ${elm.library.identifier.id}`));
       console.log(chalk.gray(`Version: ${elm.library.identifier.version || 'not specified'}`));
+      if (included.libraries.length > 0) {
+        const names = included.libraries.map(l => `${l.library.identifier.id} ${l.library.identifier.version ?? ''}`.trim());
+        console.log(chalk.gray(`Includes: ${names.join(', ')}`));
+      }
       console.log(chalk.gray('─'.repeat(50)));
 
-      const results = await executeCQL({
-        elmPath,
-        patientSource,
-        codeService,
-      });
+      // The CQL runs with the period the summary report is stamped with (--period, else the Measure's effectivePeriod)
+      const parameters = period
+        ? { 'Measurement Period': createMeasurementPeriod(period.start, period.end) }
+        : undefined;
+
+      // Execute against patient bundles and print the results
+      const execute = async (patientBundles: FHIRBundle[]): Promise<ExecutionResult[]> => {
+        const results = await executeCQL({
+          elmPath,
+          elm: elm!,
+          patientSource: createPatientSource(patientBundles),
+          codeService,
+          parameters,
+          includedLibraries: included.libraries,
+        });
+
+        // Output results
+        if (options.json) {
+          console.log(JSON.stringify(results, null, 2));
+        } else {
+          for (const result of results) {
+            printPatientResults(result, options.expression);
+          }
+        }
+
+        // Trace the define for each patient (on stderr with --json)
+        if (options.trace) {
+          const write = options.json ? console.error : console.log;
+          const library = new Library(elm!, new Repository([elm!, ...included.libraries]));
+          for (const bundle of patientBundles) {
+            const patient = createPatientSource([bundle]).currentPatient();
+            if (!patient) continue;
+            const trace = await traceExpression(library, patient, options.trace, codeService, parameters);
+            write(chalk.cyan(`\nTrace of "${options.trace}" for patient ${patient.getId()}:`));
+            formatTrace(trace, '  ').forEach(line => write(line));
+          }
+        }
+        return results;
+      };
+
+      // Evaluate each patient's population results for the Measure
+      const evaluatePopulations = async (
+        results: ExecutionResult[],
+        patientBundles: FHIRBundle[]
+      ): Promise<Map<string, PatientMeasureResults>> => {
+        const measureResults = new Map<string, PatientMeasureResults>();
+        if (!measureMetadata || !elm) return measureResults;
+        const groups = measureMetadata.groups;
+
+        // Observation functions are evaluated per patient, so load each bundle separately
+        const patients = new Map<string, ReturnType<PatientSource['currentPatient']>>();
+        if (groups.some(g => g.hasObservations)) {
+          for (const bundle of patientBundles) {
+            const patient = createPatientSource([bundle]).currentPatient();
+            if (patient) patients.set(patient.getId(), patient);
+          }
+        }
+        const library = new Library(elm, new Repository([elm, ...included.libraries]));
+
+        for (const result of results) {
+          const patient = patients.get(result.patientId);
+          const evaluate = patient ? createFunctionEvaluator(library, patient, codeService, parameters) : null;
+          measureResults.set(result.patientId, await evaluateMeasureGroups(groups, result.results, evaluate));
+        }
+        return measureResults;
+      };
+
+      // Aggregate population results across patients
+      const summarizePopulations = (measureResults: PatientMeasureResults[]) => {
+        if (!measureMetadata) return;
+        const summary = aggregateGroups(measureMetadata.groups, measureResults);
+        printMeasureSummary(summary, buildGroupNames(measureMetadata));
+
+        if (options.summaryReport && period) {
+          writeMeasureReport(options.summaryReport, buildSummaryMeasureReport(measureMetadata, period, summary));
+        }
+      };
+
+      const results = await execute([...bundles.values()]);
 
       if (results.length === 0) {
         console.log(chalk.yellow('\nNo patients found to execute against.'));
         console.log(chalk.gray(`Check that patient bundles exist in: ${options.patientsDir}`));
-        return;
+        if (!options.watch) return;
+      } else {
+        console.log(chalk.gray('\n' + '─'.repeat(50)));
+        console.log(chalk.green(`Executed against ${results.length} patient(s)`));
       }
 
-      // Output results
-      if (options.json) {
-        console.log(JSON.stringify(results, null, 2));
-      } else {
-        for (const result of results) {
-          console.log(chalk.green(`\nPatient: ${result.patientId}`));
-
-          const expressions = options.expression
-            ? { [options.expression]: result.results[options.expression] }
-            : result.results;
-
-          for (const [name, value] of Object.entries(expressions)) {
-            // Skip internal expressions (starting with __)
-            if (name.startsWith('__')) continue;
-
-            console.log(chalk.cyan(`  ${name}:`));
-            if (value === null || value === undefined) {
-              console.log(chalk.gray('    null'));
-            } else if (Array.isArray(value)) {
-              if (value.length === 0) {
-                console.log(chalk.gray('    []'));
-              } else {
-                console.log(chalk.white(`    [${value.length} items]`));
-                value.slice(0, 3).forEach((item, i) => {
-                  console.log(chalk.gray(`      ${i + 1}. ${formatValue(item)}`));
-                });
-                if (value.length > 3) {
-                  console.log(chalk.gray(`      ... and ${value.length - 3} more`));
-                }
-              }
-            } else if (typeof value === 'object') {
-              console.log(chalk.white(`    ${formatValue(value)}`));
+      const measureResults = await evaluatePopulations(results, [...bundles.values()]);
+      if (results.length > 0) {
+        summarizePopulations([...measureResults.values()]);
+      }
+
+      if (options.watch) {
+        // Latest expression results per patient, for the delta after each rerun
+        const snapshots = new Map(results.map(r => [r.patientId, snapshotExpressions(r.results)]));
+        const patientsPath = path.resolve(options.patient ?? options.patientsDir);
+        const measurePath = options.measure ? path.resolve(options.measure) : null;
+        const valuesetsPath = path.resolve(options.valuesetsDir);
+
+        // Reload what changed and re-execute the affected patients
+        const applyChanges = async (changedFiles: string[]) => {
+          const elmChanged = changedFiles.some(f => f === elmPath || included.files.includes(f));
+          const measureChanged = measurePath !== null && changedFiles.includes(measurePath);
+          const valueSetsChanged = changedFiles.some(f => isInside(f, valuesetsPath) && f.endsWith('.json'));
+          const changedPatients = changedFiles.filter(f =>
+            f.endsWith('.json') && (options.patient ? f === patientsPath : path.dirname(f) === patientsPath)
+          );
+          if (!elmChanged && !measureChanged && !valueSetsChanged && changedPatients.length === 0) return;
+
+          console.log(chalk.gray('\n' + '─'.repeat(50)));
+          if (elmChanged) {
+            const watchedIncludes = included.files;
+            const reloaded = await loadValidELM();
+            if (!reloaded) return;  // Wait for a valid library
+            elm = reloaded;
+            console.log(chalk.green(`Reloaded library: ${elm.library.identifier.id}`));
+
+            // Includes may have been added or renamed
+            if (included.files.join('\n') !== watchedIncludes.join('\n')) {
+              watcher.close();
+              watcher = watchInputs();
+            }
+          }
+          if (measureChanged) {
+            const reloaded = loadMeasure();
+            if (!reloaded) return;
+            measureMetadata = reloaded;
+            console.log(chalk.green(`Reloaded Measure: ${measureMetadata.name}`));
+          }
+          if (valueSetsChanged) {
+            codeService = createCodeService(options.valuesetsDir);
+            console.log(chalk.green('Reloaded ValueSets'));
+          }
+
+          // Reload changed bundles; removed files drop their patient
+          const removed: string[] = [];
+          for (const file of changedPatients) {
+            const previousId = bundles.has(file) ? getBundlePatientId(bundles.get(file)!) : undefined;
+            if (fs.existsSync(file)) {
+              bundles.set(file, loadBundle(file));
             } else {
-              console.log(chalk.white(`    ${value}`));
+              bundles.delete(file);
+              if (previousId) removed.push(previousId);
             }
           }
-        }
-      }
+          for (const patientId of removed) {
+            snapshots.delete(patientId);
+            measureResults.delete(patientId);
+          }
 
-      console.log(chalk.gray('\n' + '─'.repeat(50)));
-      console.log(chalk.green(`Executed against ${results.length} patient(s)`));
+          // Everything is rerun when the library, Measure or ValueSets changed
+          const rerun = elmChanged || measureChanged || valueSetsChanged
+            ? [...bundles.values()]
+            : changedPatients.filter(f => bundles.has(f)).map(f => bundles.get(f)!);
+          const rerunResults = await execute(rerun);
+
+          const deltas = rerunResults.map(r => {
+            const snapshot = snapshotExpressions(r.results);
+            const delta = comparePatientResults(r.patientId, snapshots.get(r.patientId), snapshot);
+            snapshots.set(r.patientId, snapshot);
+            return delta;
+          });
+
+          for (const [patientId, result] of await evaluatePopulations(rerunResults, rerun)) {
+            measureResults.set(patientId, result);
+          }
+          if (measureResults.size > 0) {
+            summarizePopulations([...measureResults.values()]);
+          }
+
+          console.log('');
+          printPatientDeltas(deltas, removed, console.log);
+          console.log(chalk.blue('\nWatching for changes (Ctrl+C to stop)...'));
+        };
+
+        console.log(chalk.blue('\nWatching for changes (Ctrl+C to stop)...'));
+
+        // Watch the inputs, with the include files of the library as last loaded
+        const watchInputs = () => {
+          const watched = [elmPath, ...included.files, patientsPath, valuesetsPath, ...(measurePath ? [measurePath] : [])];
+          return watchPaths(watched, async changedFiles => {
+            try {
+              await applyChanges(changedFiles);
+            } catch (error) {
+              console.error(chalk.red(`Error: ${(error as Error).message}`));
+            }
+          });
+        };
+        let watcher = watchInputs();
+      }
 
     } catch (error) {
       console.error(chalk.red(`Error: ${(error as Error).message}`));
@@ -595,8 +618,10 @@ program
 // Validate command
 program
   .command('validate <elm-file>')
-  .description('Validate an ELM JSON file structure')
-  .action((elmFile: string) => {
+  .description('Validate an ELM library: structure, references, includes and translator messages (.cql files are translated first)')
+  .option('--lib-path <dir>', 'Additional directory searched for included libraries (repeatable)', collectOption)
+  .option('--translator <jar|url>', `CQL-to-ELM translator for .cql input: translator jar or service URL (default: $${TRANSLATOR_ENV})`)
+  .action(async (elmFile: string, options) => {
     try {
       const elmPath = path.resolve(elmFile);
       if (!fs.existsSync(elmPath)) {
@@ -604,17 +629,31 @@ program
         process.exit(1);
       }
 
-      const elm = loadELM(elmPath);
-      const validation = validateELM(elm);
+      const librarySearchPaths = [path.dirname(elmPath), ...(options.libPath ?? [])];
+      const library = await loadLibrary(elmPath, options.translator, librarySearchPaths);
+      if (!library) {
+        console.log(chalk.red('Validation: FAILED'));
+        process.exit(1);
+      }
+      const elm = library.elm;
+      const included = elm.library?.identifier?.id
+        ? resolveIncludes(elm, librarySearchPaths, library.includes)
+        : { libraries: [], files: [], problems: [] };
+      const issues = validateLibrary(elm, included);
 
       console.log(chalk.blue(`\nValidating: ${elmPath}`));
       console.log(chalk.gray('─'.repeat(50)));
 
       console.log(chalk.cyan('Library:'));
-      console.log(`  ID: ${elm.library.identifier.id}`);
-      console.log(`  Version: ${elm.library.identifier.version || 'not specified'}`);
+      console.log(`  ID: ${elm.library?.identifier?.id ?? 'missing'}`);
+      console.log(`  Version: ${elm.library?.identifier?.version || 'not specified'}`);
+      const translatorInfo = elmNodes(elm.library, 'annotation').find(a => elmString(a, 'type') === 'CqlToElmInfo');
+      const translatorVersion = elmString(translatorInfo, 'translatorVersion');
+      if (translatorVersion) {
+        console.log(`  Translator: ${translatorVersion}`);
+      }
 
-      const usings = elm.library.usings?.def || [];
+      const usings = elm.library?.usings?.def || [];
       if (usings.length > 0) {
         console.log(chalk.cyan('\nModel Usings:'));
         usings.forEach(u => {
@@ -622,19 +661,42 @@ program
         });
       }
 
-      const statements = getStatements(elm);
+      if (included.libraries.length > 0) {
+        console.log(chalk.cyan('\nIncluded Libraries:'));
+        included.libraries.forEach((lib, i) => {
+          const { id, version } = lib.library.identifier;
+          console.log(`  ${id}${version ? ` ${version}` : ''} ${chalk.gray(path.relative(process.cwd(), included.files[i]) || included.files[i])}`);
+        });
+      }
+
+      const statements = elm.library?.identifier ? getStatements(elm) : [];
       if (statements.length > 0) {
         console.log(chalk.cyan('\nStatements/Expressions:'));
         statements.forEach(s => console.log(`  - ${s}`));
       }
 
+      const groups: Array<{ severity: IssueSeverity; title: string; color: (text: string) => string }> = [
+        { severity: 'error', title: 'Errors', color: chalk.red },
+        { severity: 'warning', title: 'Warnings', color: chalk.yellow },
+        { severity: 'info', title: 'Info', color: chalk.gray }
+      ];
+      for (const group of groups) {
+        const groupIssues = issues.filter(i => i.severity === group.severity);
+        if (groupIssues.length === 0) continue;
+        console.log(group.color(`\n${group.title} (${groupIssues.length}):`));
+        groupIssues.forEach(i => console.log(group.color(`  - ${i.message}${i.location ? chalk.gray(` ${i.location}`) : ''}`)));
+      }
+
       console.log(chalk.gray('\n' + '─'.repeat(50)));
 
-      if (validation.valid) {
-        console.log(chalk.green('Validation: PASSED'));
+      const errorCount = issues.filter(i => i.severity === 'error').length;
+      const warningCount = issues.filter(i => i.severity === 'warning').length;
+      const counts = `${errorCount} error(s), ${warningCount} warning(s)`;
+      if (errorCount === 0) {
+        console.log(chalk.green(`Validation: PASSED (${counts})`));
       } else {
-        console.log(chalk.red('Validation: FAILED'));
-        validation.errors.forEach(e => console.log(chalk.red(`  - ${e}`)));
+        console.log(chalk.red(`Validation: FAILED (${counts})`));
+        process.exit(1);
       }
 
     } catch (error) {
@@ -643,6 +705,74 @@ program
     }
   });
 
+// Graph command - define dependency graph
+program
+  .command('graph <elm-or-package>')
+  .description('Export the dependency graph of the defines in a library and its includes (ELM, .cql or MADiE package)')
+  .option('-f, --format <format>', `Output format: ${GRAPH_FORMATS.join(', ')}`, 'dot')
+  .option('--root <define>', 'Only the dependencies of this define (for packages also a population code, e.g. initial-population)')
+  .option('-o, --output <file>', 'Write the graph to a file instead of stdout')
+  .option('--library <name>', 'Main library of a MADiE package (auto-detected if not specified)')
+  .option('--lib-path <dir>', 'Additional directory searched for included libraries (repeatable)', collectOption)
+  .option('--translator <jar|url>', `CQL-to-ELM translator for .cql input: translator jar or service URL (default: $${TRANSLATOR_ENV})`)
+  .action(async (input: string, options) => {
+    try {
+      if (!isGraphFormat(options.format)) {
+        throw new Error(`Unknown format "${options.format}". Use one of: ${GRAPH_FORMATS.join(', ')}`);
+      }
+      const inputPath = path.resolve(input);
+      if (!fs.existsSync(inputPath)) {
+        throw new Error(`File not found: ${inputPath}`);
+      }
+
+      let main: ELMLibrary;
+      let libraries: ELMLibrary[];
+      let roots: string[] = options.root ? [options.root] : [];
+
+      if (isZipPath(inputPath) || fs.statSync(inputPath).isDirectory()) {
+        // MADiE package: every library of the package is in the Repository
+        const packageLibraries = listPackageLibraries(inputPath);
+        if (packageLibraries.length === 0) {
+          throw new Error('No libraries found in package.');
+        }
+        const pkg = loadMADiEPackage(inputPath, options.library || detectMainLibrary(packageLibraries));
+        main = pkg.mainLibrary;
+        libraries = pkg.allLibraries;
+
+        // A population code selects that population's criteria in every group
+        const populationDefines = (pkg.measureMetadata?.groups ?? [])
+          .flatMap(g => g.populations.filter(p => p.code === options.root).map(p => p.expression));
+        if (populationDefines.length > 0) {
+          roots = [...new Set(populationDefines)];
+        }
+      } else {
+        // ELM or CQL: includes are resolved as for the run command (stdout is kept for the graph)
+        const searchPaths = [path.dirname(inputPath), ...(options.libPath ?? [])];
+        const library = await loadLibrary(inputPath, options.translator, searchPaths, console.error);
+        if (!library) {
+          process.exit(1);
+        }
+        const resolution = resolveIncludes(library.elm, searchPaths, library.includes);
+        resolution.problems.forEach(p => console.error(chalk.yellow(`Warning: ${describeIncludeProblem(p)}`)));
+        main = library.elm;
+        libraries = resolution.libraries;
+      }
+
+      const graph = formatGraph(buildDependencyGraph(main, libraries, roots), options.format);
+      if (options.output) {
+        const outputPath = path.resolve(options.output);
+        fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+        fs.writeFileSync(outputPath, graph + '\n');
+        console.error(chalk.green(`Graph saved to: ${outputPath}`));
+      } else {
+        console.log(graph);
+      }
+    } catch (error) {
+      console.error(chalk.red(`Error: ${(error as Error).message}`));
+      process.exit(1);
+    }
+  });
+
 // Patients command group
 const patients = program.command('patients').description('Manage test patient data');
 
@@ -708,22 +838,25 @@ valuesets
 // Libraries command - list ELM libraries
 program
   .command('libraries')
-  .description('List available ELM libraries')
-  .option('-d, --dir <dir>', 'Directory containing ELM files', DEFAULT_ELM_DIR)
+  .description('List available ELM libraries and CQL source files')
+  .option('-d, --dir <dir>', 'Directory containing ELM or .cql files', DEFAULT_ELM_DIR)
   .action((options) => {
-    const libraries = getELMList(options.dir);
+    const libraries = [
+      ...getELMList(options.dir),
+      ...getCqlList(options.dir).map(lib => ({ ...lib, source: 'CQL' }))
+    ];
 
-    console.log(chalk.blue('\nAvailable CQL Libraries (ELM)'));
+    console.log(chalk.blue('\nAvailable CQL Libraries (ELM and CQL)'));
     console.log(chalk.gray('─'.repeat(50)));
 
     if (libraries.length === 0) {
       console.log(chalk.yellow('No ELM libraries found.'));
-      console.log(chalk.gray(`Add ELM JSON files to: ${path.resolve(options.dir)}`));
+      console.log(chalk.gray(`Add ELM JSON or .cql files to: ${path.resolve(options.dir)}`));
       return;
     }
 
     for (const lib of libraries) {
-      console.log(chalk.green(`\n${lib.id}`));
+      console.log(chalk.green(`\n${lib.id}`) + ('source' in lib ? chalk.gray(' (CQL source, translated on use)') : ''));
       console.log(`  Version: ${lib.version || 'not specified'}`);
       console.log(chalk.gray(`  File: ${lib.filePath}`));
     }
@@ -732,431 +865,664 @@ program
     console.log(`Total: ${libraries.length} library(ies)`);
   });
 
-// MADiE command - run MADiE package test cases
-program
-  .command('madie <package-dir>')
-  .description('Run MADiE package test cases')
-  .option('--test-cases <dir>', 'Path to test cases directory')
-  .option('--test <uuid>', 'Run specific test case by UUID')
-  .option('--valuesets <dir>', 'Path to ValueSets directory', 'valuesets/nhsn')
-  .option('--library <name>', 'Main library name (auto-detected if not specified)')
-  .option('--json', 'Output results as JSON')
-  .option('--verbose', 'Show detailed expression results')
-  .option('--full', 'Include full expression results in output')
-  .option('--output <file>', 'Save results to file (JSON format)')
-  .option('--save-elm <dir>', 'Save extracted ELM files to directory')
-  .option('--save-bundles <dir>', 'Save processed patient bundles to directory')
-  .action(async (packageDir: string, options) => {
-    try {
-      const absPackageDir = path.resolve(packageDir);
-
-      if (!fs.existsSync(absPackageDir)) {
-        console.error(chalk.red(`Error: Package directory not found: ${absPackageDir}`));
-        process.exit(1);
-      }
+/**
+ * Find the main library of a MADiE package - try several strategies:
+ * 1. Look for library with longest name (usually the main measure)
+ * 2. Look for library matching package name pattern
+ * 3. Exclude common helper libraries
+ */
+function detectMainLibrary(libraries: Array<{ name: string }>): string {
+  const helperLibraries = ['FHIRHelpers', 'QICoreCommon', 'CQMCommon', 'SharedResourceCreation'];
+  const candidateLibs = libraries.filter(l => !helperLibraries.includes(l.name));
+
+  if (candidateLibs.length > 0) {
+    // Pick the one with longest name (usually the measure library)
+    candidateLibs.sort((a, b) => b.name.length - a.name.length);
+    return candidateLibs[0].name;
+  }
+  return libraries[0].name;
+}
 
-      // Auto-detect test cases directory if not specified
-      let testCasesDir = options.testCases;
-      if (!testCasesDir) {
-        // Try common patterns
-        const baseName = path.basename(packageDir);
-        const candidates = [
-          `${baseName}-TestCases`,
-          `${packageDir}-TestCases`,
-          path.join(path.dirname(packageDir), `${baseName}-TestCases`)
-        ];
-        for (const candidate of candidates) {
-          if (fs.existsSync(candidate)) {
-            testCasesDir = candidate;
-            break;
-          }
-        }
-      }
+/**
+ * Options of the madie command, also used as the per-measure "options" of
+ * the project config (where numeric options may be JSON numbers)
+ */
+interface MadieCommandOptions {
+  all?: boolean;
+  config: string;
+  testCases?: string;
+  test?: string;
+  grep?: string;
+  group?: string[];
+  onlyFailed?: string;
+  exclude?: string[];
+  valuesets: string;
+  library?: string;
+  json?: boolean;
+  reporter: string;
+  reporterOutput?: string;
+  html?: string;
+  verbose?: boolean;
+  full?: boolean;
+  trace?: string;
+  coverage?: boolean;
+  coverageOutput?: string;
+  output?: string;
+  saveElm?: string;
+  saveBundles?: string;
+  measureReports?: string;
+  summaryReport?: string;
+  scoreTolerance?: string | number;
+  scoreRelativeTolerance?: string | number;
+  scorePrecision?: string | number;
+  jobs?: string | number;
+  watch?: boolean;
+  knownFailures?: string;
+}
 
-      if (!testCasesDir || !fs.existsSync(testCasesDir)) {
-        console.error(chalk.red('Error: Test cases directory not found.'));
-        console.error(chalk.gray('Use --test-cases <dir> to specify the path.'));
-        process.exit(1);
-      }
+/**
+ * Outcome of running one MADiE package's test cases
+ */
+interface MadieRunSummary {
+  packageName: string;
+  reports: TestCaseReport[];
+  skipped: number;       // Test cases left out by selection
+}
 
-      // List available libraries to find main library
-      const libraries = listPackageLibraries(packageDir);
-      if (libraries.length === 0) {
-        console.error(chalk.red('Error: No libraries found in package.'));
-        process.exit(1);
-      }
+/**
+ * Run the test cases of a MADiE package (the madie command for one package).
+ * With --watch, test cases keep being rerun on changes after this returns.
+ *
+ * @throws Error if the package, test cases or options are invalid
+ */
+async function runMadiePackage(packageDir: string, options: MadieCommandOptions): Promise<MadieRunSummary> {
+  const reporterName: string = options.json ? 'json' : options.reporter;
+  if (!isReporterName(reporterName)) {
+    throw new Error(`Unknown reporter "${reporterName}". Use one of: ${REPORTER_NAMES.join(', ')}`);
+  }
 
-      // Determine main library name
-      let mainLibraryName = options.library;
-      if (!mainLibraryName) {
-        // Find the main library - try several strategies:
-        // 1. Look for library with longest name (usually the main measure)
-        // 2. Look for library matching package name pattern
-        // 3. Exclude common helper libraries
-
-        const helperLibraries = ['FHIRHelpers', 'QICoreCommon', 'CQMCommon', 'SharedResourceCreation'];
-        const candidateLibs = libraries.filter(l => !helperLibraries.includes(l.name));
-
-        if (candidateLibs.length > 0) {
-          // Pick the one with longest name (usually the measure library)
-          candidateLibs.sort((a, b) => b.name.length - a.name.length);
-          mainLibraryName = candidateLibs[0].name;
-        } else {
-          mainLibraryName = libraries[0].name;
-        }
-      }
+  // Keep stdout for the reporter when it writes machine-readable output there
+  const log = reporterName !== 'pretty' && !options.reporterOutput ? console.error : console.log;
 
-      console.log(chalk.blue('\nMADiE Package Test Runner'));
-      console.log(chalk.gray('━'.repeat(50)));
-      console.log(`Package: ${chalk.cyan(mainLibraryName)}`);
-      console.log(`Libraries: ${chalk.cyan(libraries.length)}`);
-
-      // Load the package
-      console.log(chalk.gray('\nLoading package...'));
-      const pkg = loadMADiEPackage(packageDir, mainLibraryName);
-      console.log(chalk.green(`  Loaded ${pkg.allLibraries.length} libraries`));
-
-      // Save extracted ELM files if requested
-      if (options.saveElm) {
-        const elmDir = path.resolve(options.saveElm);
-        if (!fs.existsSync(elmDir)) {
-          fs.mkdirSync(elmDir, { recursive: true });
-        }
-        for (const lib of pkg.allLibraries) {
-          const libId = lib.library.identifier.id;
-          const libVersion = lib.library.identifier.version || '0.0.0';
-          const fileName = `${libId}-${libVersion}.json`;
-          const filePath = path.join(elmDir, fileName);
-          fs.writeFileSync(filePath, JSON.stringify(lib, null, 2));
-        }
-        console.log(chalk.green(`  Saved ${pkg.allLibraries.length} ELM files to: ${elmDir}`));
-      }
+  const absPackageDir = path.resolve(packageDir);
 
-      // Load ValueSets
-      console.log(chalk.gray('Loading ValueSets...'));
-      const codeService = loadValueSetsForMadie(options.valuesets);
-      const vsInfo = getValueSetSummary(options.valuesets);
-      console.log(chalk.green(`  Loaded ${vsInfo.length} ValueSets`));
+  if (!fs.existsSync(absPackageDir)) {
+    throw new Error(`Package directory not found: ${absPackageDir}`);
+  }
 
-      if (vsInfo.length === 0) {
-        console.warn(chalk.yellow('\n  Warning: No ValueSets loaded!'));
-        console.warn(chalk.gray('  Run: python scripts/download-valuesets.py --api-key YOUR_KEY'));
+  // Auto-detect test cases directory (or zip download) if not specified
+  let testCasesDir = options.testCases;
+  if (!testCasesDir) {
+    // Try common patterns
+    const packagePath = isZipPath(packageDir) ? packageDir.slice(0, -path.extname(packageDir).length) : packageDir;
+    const baseName = path.basename(packagePath);
+    const candidates = [
+      `${baseName}-TestCases`,
+      `${packagePath}-TestCases`,
+      path.join(path.dirname(packagePath), `${baseName}-TestCases`)
+    ].flatMap(candidate => [candidate, `${candidate}.zip`]);
+    for (const candidate of candidates) {
+      if (fs.existsSync(candidate)) {
+        testCasesDir = candidate;
+        break;
       }
+    }
+  }
 
-      // Load test cases
-      console.log(chalk.gray('Loading test cases...'));
-      let testCases = loadTestCases(testCasesDir);
-      console.log(chalk.green(`  Found ${testCases.length} test cases`));
+  if (!testCasesDir || !fs.existsSync(testCasesDir)) {
+    throw new Error('Test cases directory not found. Use --test-cases <dir> to specify the path.');
+  }
 
-      // Filter to specific test if requested
-      if (options.test) {
-        testCases = testCases.filter(tc =>
-          tc.id === options.test || tc.name.toLowerCase().includes(options.test.toLowerCase())
-        );
-        if (testCases.length === 0) {
-          console.error(chalk.red(`Error: Test case not found: ${options.test}`));
-          process.exit(1);
-        }
-      }
+  // List available libraries to find main library
+  const libraries = listPackageLibraries(packageDir);
+  if (libraries.length === 0) {
+    throw new Error('No libraries found in package.');
+  }
 
-      // Save processed patient bundles if requested
-      if (options.saveBundles) {
-        const bundlesDir = path.resolve(options.saveBundles);
-        if (!fs.existsSync(bundlesDir)) {
-          fs.mkdirSync(bundlesDir, { recursive: true });
-        }
-        for (const testCase of testCases) {
-          // Use original filename which contains unique group + test case name
-          // e.g., CMS986FHIR-v1.0.000-MSROBSPass4-2EncountersScreAtRiskThenRef
-          const safeFileName = testCase.fileName.replace(/[^a-zA-Z0-9._-]/g, '-');
-          const fileName = `${safeFileName}-bundle.json`;
-          const filePath = path.join(bundlesDir, fileName);
-
-          // Save clean FHIR collection bundle (no custom metadata)
-          const bundleToSave = {
-            resourceType: 'Bundle',
-            type: 'collection',
-            id: testCase.id,
-            entry: testCase.patientBundle.entry
-          };
-          fs.writeFileSync(filePath, JSON.stringify(bundleToSave, null, 2));
-        }
-        console.log(chalk.green(`  Saved ${testCases.length} patient bundles to: ${bundlesDir}`));
-      }
+  // Determine main library name
+  const mainLibraryName = options.library || detectMainLibrary(libraries);
+
+  log(chalk.blue('\nMADiE Package Test Runner'));
+  log(chalk.gray('━'.repeat(50)));
+  log(`Package: ${chalk.cyan(mainLibraryName)}`);
+  log(`Libraries: ${chalk.cyan(libraries.length)}`);
+
+  // Load the package
+  log(chalk.gray('\nLoading package...'));
+  let pkg = loadMADiEPackage(packageDir, mainLibraryName);
+  log(chalk.green(`  Loaded ${pkg.allLibraries.length} libraries`));
+  if (pkg.measureMetadata) {
+    log(chalk.green(`  Loaded Measure with ${pkg.measureMetadata.groupCount} group(s)`));
+    for (const group of pkg.measureMetadata.groups) {
+      const basis = group.populationBasis === 'boolean' ? 'patient-based' : `${group.populationBasis} basis`;
+      const strata = group.stratifiers.length > 0 ? `, ${group.stratifiers.length} stratifier(s)` : '';
+      log(chalk.gray(`    ${group.id}: ${group.scoring}, ${basis}${strata}`));
+    }
+  }
 
-      console.log(chalk.gray('\n' + '━'.repeat(50)));
-      console.log(chalk.blue('Running tests...\n'));
-
-      // Create repository from package
-      const repository = createRepository(pkg);
-      const mainLibrary = new Library(pkg.mainLibrary, repository);
-
-      // Check if this is a multi-group measure (for output formatting)
-      const isMultiGroupMeasure = hasMultipleGroupsWithObservations(pkg.measureMetadata);
-
-      // Run each test case
-      const results: Array<{
-        testCase: TestCase;
-        passed: boolean;
-        actualCount: number;
-        expectedCount: number;
-        groupComparisons?: GroupComparison[];
-        observations?: { obs1: number; obs2: number; obs3: number; obs4: number };
-        error?: string;
-        expressions?: Record<string, unknown>;
-      }> = [];
-
-      for (const testCase of testCases) {
-        try {
-          // Create patient source from bundle
-          const patientSource = PatientSource.FHIRv401();
-
-          // Convert entries to array of resources
-          const resources = testCase.patientBundle.entry?.map(e => e.resource).filter(Boolean) || [];
-
-          // Wrap in a bundle for loading
-          const bundleForLoading = {
-            resourceType: 'Bundle',
-            type: 'collection',
-            entry: resources.map(r => ({ resource: r }))
-          };
-
-          patientSource.loadBundles([bundleForLoading]);
-
-          // Get measurement period from expected results
-          // CQL expects DateTime objects in a specific format
-          const startStr = testCase.expectedResults.measurementPeriod.start;
-          const endStr = testCase.expectedResults.measurementPeriod.end;
-
-          // Parse measurement period dates into CQL DateTime objects
-          const startDate = new Date(startStr);
-          const endDate = new Date(endStr);
-
-          const mpStart = DateTime.fromJSDate(startDate, 0); // 0 = UTC offset
-          const mpEnd = DateTime.fromJSDate(endDate, 0);
-          const measurementPeriod = new Interval(mpStart, mpEnd, true, true);
-
-          // Create executor with Measurement Period parameter
-          const executor = new Executor(mainLibrary, codeService, {
-            'Measurement Period': measurementPeriod
-          });
+  // Save extracted ELM files if requested
+  if (options.saveElm) {
+    const elmDir = path.resolve(options.saveElm);
+    if (!fs.existsSync(elmDir)) {
+      fs.mkdirSync(elmDir, { recursive: true });
+    }
+    for (const lib of pkg.allLibraries) {
+      const libId = lib.library.identifier.id;
+      const libVersion = lib.library.identifier.version || '0.0.0';
+      const fileName = `${libId}-${libVersion}.json`;
+      const filePath = path.join(elmDir, fileName);
+      fs.writeFileSync(filePath, JSON.stringify(lib, null, 2));
+    }
+    log(chalk.green(`  Saved ${pkg.allLibraries.length} ELM files to: ${elmDir}`));
+  }
 
-          // Execute
-          const execResults = await executor.exec(patientSource);
+  // Load ValueSets
+  log(chalk.gray('Loading ValueSets...'));
+  let codeService = loadValueSetsForMadie(options.valuesets);
+  const vsInfo = getValueSetSummary(options.valuesets);
+  log(chalk.green(`  Loaded ${vsInfo.length} ValueSets`));
 
-          // Get Initial Population result
-          const patientId = getPatientIdFromBundle(testCase.patientBundle) || testCase.id;
-          const patientResults = execResults.patientResults?.[patientId] || {};
+  if (vsInfo.length === 0) {
+    console.warn(chalk.yellow('\n  Warning: No ValueSets loaded!'));
+    console.warn(chalk.gray('  Run: python scripts/download-valuesets.py --api-key YOUR_KEY'));
+  }
 
-          // Count Initial Population
-          const ipResult = patientResults['Initial Population'];
-          let actualCount = 0;
-          if (Array.isArray(ipResult)) {
-            actualCount = ipResult.length;
-          } else if (ipResult) {
-            actualCount = 1;
-          }
+  // Load test cases
+  log(chalk.gray('Loading test cases...'));
+  const allTestCases = loadTestCases(testCasesDir);
+  log(chalk.green(`  Found ${allTestCases.length} test cases`));
+
+  // Select test cases (--test, --grep, --group, --only-failed, --exclude)
+  const selection = createTestSelection(options);
+  const initialSelection = selectTestCases(allTestCases, selection);
+  let testCases = initialSelection.selected;
+  const skippedIds = new Set(initialSelection.skipped.map(tc => tc.id));
+  if (hasSelectors(selection)) {
+    if (testCases.length === 0) {
+      throw new Error(`No test cases match the selection${options.test ? `: ${options.test}` : ''}`);
+    }
+    log(chalk.green(`  Selected ${testCases.length} test cases (${skippedIds.size} skipped by selection)`));
+  }
 
-          // Get expected count
-          const expectedPop = testCase.expectedResults.populations.find(
-            p => p.code === 'initial-population'
-          );
-          const expectedCount = expectedPop?.count ?? 0;
-
-          // Calculate observations and group comparisons
-          const observations = calculateObservations(patientResults);
-          const actualGroups = calculateActualGroups(patientResults);
-          const groupComparisons = compareGroups(testCase.expectedResults.groups, actualGroups);
-
-          // Check if all groups pass
-          const allGroupsPass = groupComparisons.every(g => g.passed);
-          const ipPassed = actualCount === expectedCount;
-          const passed = ipPassed && allGroupsPass;
-
-          // Build result object
-          const resultObj: typeof results[0] = {
-            testCase,
-            passed,
-            actualCount,
-            expectedCount,
-            groupComparisons,
-            observations
-          };
-
-          // Include full expressions if --full is specified
-          if (options.full) {
-            resultObj.expressions = patientResults;
-          }
+  // Trace a define's evaluation for the selected test case (--trace)
+  if (options.trace) {
+    if (!options.test) {
+      throw new Error('--trace requires --test <uuid|name>');
+    }
+    if (!getStatements(pkg.mainLibrary).includes(options.trace)) {
+      throw new Error(`Define "${options.trace}" not found in ${mainLibraryName}`);
+    }
+  }
 
-          results.push(resultObj);
-
-          // Output result
-          const statusIcon = passed ? chalk.green('[PASS]') : chalk.red('[FAIL]');
-          console.log(`${statusIcon} ${testCase.name}`);
-
-          if (!passed || options.verbose) {
-            console.log(chalk.gray(`  Initial Population: expected ${expectedCount}, got ${actualCount}`));
-
-            // Only show observation scores and group comparisons for multi-group measures
-            if (isMultiGroupMeasure) {
-              console.log(chalk.gray(`  Observations: Obs1=${observations.obs1}, Obs2=${observations.obs2}, Obs3=${observations.obs3}, Obs4=${observations.obs4}`));
-
-              // Show group comparison details for failures
-              if (!allGroupsPass) {
-                console.log(chalk.gray('  Group Comparisons:'));
-                for (const gc of groupComparisons) {
-                  const groupStatus = gc.passed ? chalk.green('OK') : chalk.red('FAIL');
-                  if (!gc.passed || options.verbose) {
-                    console.log(chalk.gray(`    ${gc.groupId}: [${groupStatus}]`));
-                    console.log(chalk.gray(`      IP: exp=${gc.expected.initialPopulation}, act=${gc.actual.initialPopulation}`));
-                    console.log(chalk.gray(`      MP: exp=${gc.expected.measurePopulation}, act=${gc.actual.measurePopulation}`));
-                    console.log(chalk.gray(`      MPE: exp=${gc.expected.measurePopulationExclusion}, act=${gc.actual.measurePopulationExclusion}`));
-                    // Show individual observations
-                    const expObs = gc.expected.observations;
-                    const actObs = gc.actual.observations;
-                    console.log(chalk.gray(`      Obs1: exp=${expObs.obs1}, act=${actObs.obs1}`));
-                    if (gc.groupId === 'Group_5' || gc.groupId === 'Group_6') {
-                      console.log(chalk.gray(`      Obs2: exp=${expObs.obs2}, act=${actObs.obs2}`));
-                      console.log(chalk.gray(`      Obs3: exp=${expObs.obs3}, act=${actObs.obs3}`));
-                      console.log(chalk.gray(`      Obs4: exp=${expObs.obs4}, act=${actObs.obs4}`));
-                    }
-                  }
-                }
-              }
-            }
-          }
+  // Save processed patient bundles if requested
+  if (options.saveBundles) {
+    const bundlesDir = path.resolve(options.saveBundles);
+    if (!fs.existsSync(bundlesDir)) {
+      fs.mkdirSync(bundlesDir, { recursive: true });
+    }
+    for (const testCase of testCases) {
+      // Use original filename which contains unique group + test case name
+      // e.g., CMS986FHIR-v1.0.000-MSROBSPass4-2EncountersScreAtRiskThenRef
+      const safeFileName = testCase.fileName.replace(/[^a-zA-Z0-9._-]/g, '-');
+      const fileName = `${safeFileName}-bundle.json`;
+      const filePath = path.join(bundlesDir, fileName);
+
+      // Save clean FHIR collection bundle (no custom metadata)
+      const bundleToSave = {
+        resourceType: 'Bundle',
+        type: 'collection',
+        id: testCase.id,
+        entry: testCase.patientBundle.entry
+      };
+      fs.writeFileSync(filePath, JSON.stringify(bundleToSave, null, 2));
+    }
+    log(chalk.green(`  Saved ${testCases.length} patient bundles to: ${bundlesDir}`));
+  }
 
-          if (options.verbose && Object.keys(patientResults).length > 0) {
-            console.log(chalk.gray('  Expressions:'));
-            for (const [name, value] of Object.entries(patientResults)) {
-              if (name.startsWith('__')) continue;
-              const displayValue = Array.isArray(value)
-                ? `[${value.length} items]`
-                : value === null || value === undefined
-                  ? 'null'
-                  : typeof value === 'object'
-                    ? formatValue(value)
-                    : String(value);
-              console.log(chalk.gray(`    ${name}: ${displayValue}`));
-            }
-          }
+  log(chalk.gray('\n' + '━'.repeat(50)));
+  log(chalk.blue('Running tests...\n'));
 
-        } catch (error) {
-          results.push({
-            testCase,
-            passed: false,
-            actualCount: 0,
-            expectedCount: testCase.expectedResults.populations.find(p => p.code === 'initial-population')?.count ?? 0,
-            error: (error as Error).message
-          });
+  // Measure score comparison settings
+  const runnerOptions: TestCaseRunnerOptions = {
+    scoreOptions: {
+      absoluteTolerance: parseNumberOption(options.scoreTolerance, '--score-tolerance'),
+      relativeTolerance: parseNumberOption(options.scoreRelativeTolerance, '--score-relative-tolerance'),
+      precision: parseNumberOption(options.scorePrecision, '--score-precision')
+    },
+    includeExpressions: Boolean(options.full || options.verbose),
+    trace: options.trace,
+    coverage: Boolean(options.coverage || options.coverageOutput)
+  };
+
+  const jobs = options.jobs === undefined ? 1 : Number(options.jobs);
+  if (!Number.isInteger(jobs) || jobs < 1) {
+    throw new Error(`--jobs must be a positive integer, got "${options.jobs}"`);
+  }
 
-          console.log(chalk.red(`[ERROR] ${testCase.name}`));
-          console.log(chalk.red(`  ${(error as Error).message}`));
-        }
-      }
+  // Prepare MeasureReport output directory if requested
+  const reportsDir = options.measureReports ? path.resolve(options.measureReports) : null;
+  if (reportsDir && !fs.existsSync(reportsDir)) {
+    fs.mkdirSync(reportsDir, { recursive: true });
+  }
 
-      // Summary
-      const passedCount = results.filter(r => r.passed).length;
-      const failedCount = results.filter(r => !r.passed).length;
+  // Known failures: listed test cases that fail are reported as XFAIL
+  const knownFailuresPath = options.knownFailures
+    ? path.resolve(options.knownFailures)
+    : path.join(isZipPath(absPackageDir) ? path.dirname(absPackageDir) : absPackageDir, KNOWN_FAILURES_FILE);
+  if (options.knownFailures && !fs.existsSync(knownFailuresPath)) {
+    throw new Error(`Known failures manifest not found: ${knownFailuresPath}`);
+  }
+  const knownFailures = fs.existsSync(knownFailuresPath)
+    ? loadKnownFailures(knownFailuresPath)
+    : new Map<string, KnownFailure>();
+  if (knownFailures.size > 0) {
+    log(chalk.gray(`Known failures: ${knownFailures.size} listed in ${knownFailuresPath}\n`));
+  }
 
-      console.log(chalk.gray('\n' + '━'.repeat(50)));
+  // Progress is always shown on the console; other formats go to stdout or files
+  const createReporterContext = (): ReporterContext => ({
+    packageName: mainLibraryName,
+    measureGroups: pkg.measureMetadata?.groups ?? [],
+    groupNames: buildGroupNames(pkg.measureMetadata),
+    // Check if this is a multi-group measure (for output formatting)
+    isMultiGroupMeasure: hasMultipleGroupsWithObservations(pkg.measureMetadata),
+    showGroups: hasGroupLevelResults(pkg.measureMetadata),
+    verbose: Boolean(options.verbose),
+    full: Boolean(options.full),
+    skipped: skippedIds.size,
+    write: log
+  });
+  let reporterContext = createReporterContext();
+
+  const consoleReporters: Reporter[] = [createPrettyReporter(reporterContext)];
+  if (reporterName !== 'pretty' && !options.reporterOutput) {
+    consoleReporters.push(createReporter(reporterName, {
+      ...reporterContext,
+      write: text => console.log(text)
+    }, testCases.length));
+  }
 
-      // Build results object with unique titles
-      // Track occurrence count per test name for unique titles
-      const nameCounts: Record<string, number> = {};
-      const nameIndices: Record<string, number> = {};
+  // Write the individual MeasureReport built from actual results
+  const writeIndividualReport = (testCase: TestCase, result: TestCaseResult) => {
+    if (!reportsDir || !pkg.measureMetadata || !result.measureResults) return;
+    const measureReport = buildIndividualMeasureReport(pkg.measureMetadata, {
+      id: testCase.id,
+      patientId: result.patientId ?? testCase.id,
+      period: testCase.expectedResults.measurementPeriod,
+      groups: result.measureResults.groups,
+      observations: result.measureResults.observations,
+      evaluatedResources: result.evaluatedResources
+    });
+    const safeFileName = testCase.fileName.replace(/[^a-zA-Z0-9._-]/g, '-');
+    fs.writeFileSync(
+      path.join(reportsDir, `${safeFileName}-MeasureReport.json`),
+      JSON.stringify(measureReport, null, 2)
+    );
+  };
+
+  // Run test cases, on worker threads with --jobs; results arrive in test case order
+  let runTestCase = createTestCaseRunner(pkg, codeService, runnerOptions);
+  const runTestCases = async (cases: TestCase[], reporters: Reporter[]): Promise<TestCaseReport[]> => {
+    const reports: TestCaseReport[] = [];
+    const reportResult = (testCase: TestCase, result: TestCaseResult) => {
+      const report: TestCaseReport = { testCase, ...result };
+      const knownFailure = knownFailures.get(testCase.id);
+      if (knownFailure) {
+        report.knownFailure = checkKnownFailure(knownFailure, result);
+      }
+      reports.push(report);
+      writeIndividualReport(testCase, result);
+      for (const reporter of reporters) {
+        reporter.onTestCase(report);
+      }
+    };
+
+    if (jobs > 1 && cases.length > 1) {
+      const workerData: TestCaseWorkerData = {
+        packageDir,
+        mainLibraryName,
+        valuesetsDir: options.valuesets,
+        runnerOptions
+      };
+      await runTestCasesInWorkers(cases, jobs, workerData, (index, result) =>
+        reportResult(cases[index], result)
+      );
+    } else {
+      for (const testCase of cases) {
+        reportResult(testCase, await runTestCase(testCase));
+      }
+    }
+    return reports;
+  };
+
+  // Aggregate actual results across all test-case patients
+  const writeSummaryReport = (reports: TestCaseReport[], printSummary: boolean) => {
+    if (options.summaryReport && pkg.measureMetadata) {
+      const summary = aggregateGroups(
+        reporterContext.measureGroups,
+        reports.flatMap(r => r.measureResults ? [r.measureResults] : [])
+      );
+      if (printSummary) {
+        printMeasureSummary(summary, reporterContext.groupNames, log);
+      }
+      // Test cases carry their own Measurement Period; without any, use the Measure's effectivePeriod
+      const period = reports.length > 0
+        ? reports[0].testCase.expectedResults.measurementPeriod
+        : pkg.measureMetadata.effectivePeriod;
+      if (!period) {
+        log(chalk.yellow('No test cases ran and the Measure has no effectivePeriod; summary MeasureReport not written'));
+        return;
+      }
+      writeMeasureReport(options.summaryReport, buildSummaryMeasureReport(pkg.measureMetadata, period, summary), log);
+    }
+  };
+
+  // Write --output and the reporters that write to a file
+  const writeResultFiles = (reports: TestCaseReport[]) => {
+    // Save to file if --output specified
+    if (options.output) {
+      const outputPath = path.resolve(options.output);
+      const outputDir = path.dirname(outputPath);
+      if (!fs.existsSync(outputDir)) {
+        fs.mkdirSync(outputDir, { recursive: true });
+      }
+      fs.writeFileSync(outputPath, JSON.stringify(buildJsonOutput(reports, reporterContext), null, 2));
+      log(chalk.green(`Results saved to: ${outputPath}`));
+    }
 
-      // First pass: count total occurrences of each name
-      for (const r of results) {
-        nameCounts[r.testCase.name] = (nameCounts[r.testCase.name] || 0) + 1;
+    const reportFiles: Array<{ name: ReporterName; label: string; filePath: string }> = [];
+    if (options.reporterOutput) {
+      reportFiles.push({ name: reporterName, label: reporterName, filePath: options.reporterOutput });
+    }
+    if (options.html) {
+      reportFiles.push({ name: 'html', label: 'HTML', filePath: options.html });
+    }
+    for (const file of reportFiles) {
+      const lines: string[] = [];
+      const reporter = createReporter(file.name, {
+        ...reporterContext,
+        write: text => { lines.push(stripVTControlCharacters(text)); }
+      }, reports.length);
+      reports.forEach(r => reporter.onTestCase(r));
+      reporter.onComplete(reports);
+
+      const filePath = path.resolve(file.filePath);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, lines.join('\n') + '\n');
+      log(chalk.green(`${file.label} report saved to: ${filePath}`));
+    }
+  };
+
+  // Logic coverage across the test cases; the annotated CQL of the main library is printed once
+  const reportCoverage = (reports: TestCaseReport[], printListing: boolean) => {
+    if (!runnerOptions.coverage) return;
+    const coverage = analyzeCoverage(
+      [pkg.mainLibrary, ...pkg.dependentLibraries],
+      mergeCoverage(reports.map(r => r.coverage))
+    );
+
+    log(chalk.blue('\nLogic Coverage'));
+    coverage.forEach(c => log(`  ${formatCoverageSummary(c)}`));
+    const main = coverage.find(c => c.library.split('|')[0] === mainLibraryName);
+    if (printListing && main) {
+      log(chalk.gray(`\n${main.library} (✗ never exercised):`));
+      for (const line of main.listing) {
+        log(line.startsWith('✗') ? chalk.red(line) : line.startsWith('✓') ? line : chalk.gray(line));
       }
+    }
 
-      // Build dynamic group names from measure metadata
-      const dynamicGroupNames = buildGroupNames(pkg.measureMetadata);
+    if (options.coverageOutput) {
+      const lines = [
+        `Logic coverage of ${reports.length} test case(s)`,
+        '',
+        ...coverage.map(formatCoverageSummary),
+        ...coverage.flatMap(c => ['', `== ${c.library} ==`, '', ...c.listing])
+      ];
+      const outputPath = path.resolve(options.coverageOutput);
+      fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+      fs.writeFileSync(outputPath, lines.join('\n') + '\n');
+      log(chalk.green(`Coverage report saved to: ${outputPath}`));
+    }
+  };
 
-      const outputData: Record<string, unknown> = {
-        package: mainLibraryName,
-        timestamp: new Date().toISOString(),
-        total: results.length,
-        passed: passedCount,
-        failed: failedCount
-      };
+  const results = await runTestCases(testCases, consoleReporters);
 
-      // Only include groupNames for multi-group measures
-      if (isMultiGroupMeasure && Object.keys(dynamicGroupNames).length > 0) {
-        outputData.groupNames = dynamicGroupNames;
-      }
+  reportCoverage(results, true);
+  writeSummaryReport(results, true);
+  log(chalk.gray('\n' + '━'.repeat(50)));
+  writeResultFiles(results);
 
-      outputData.results = results.map(r => {
-        // Generate unique title: name_N if multiple, or just name if single
-        const count = nameCounts[r.testCase.name];
-        let title: string;
-        if (count > 1) {
-          nameIndices[r.testCase.name] = (nameIndices[r.testCase.name] || 0) + 1;
-          title = `${r.testCase.name}_${nameIndices[r.testCase.name]}`;
-        } else {
-          title = r.testCase.name;
-        }
+  for (const reporter of consoleReporters) {
+    reporter.onComplete(results);
+  }
 
-        const result: Record<string, unknown> = {
-          id: r.testCase.id,
-          name: r.testCase.name,
-          title: title,
-          description: r.testCase.expectedResults.description || '',
-          passed: r.passed
-        };
+  if (options.watch) {
+    // Latest result per test case, updated as test cases are rerun
+    const latest = new Map(results.map(r => [r.testCase.id, r]));
+    // A zipped package or test cases export is watched as a whole
+    const resourcesDir = isZipPath(absPackageDir) ? absPackageDir : path.join(absPackageDir, 'resources');
+    const watched: MadieWatchPaths = {
+      resourcesDir,
+      testCasesDir: path.resolve(testCasesDir),
+      valuesetsDir: path.resolve(options.valuesets)
+    };
+
+    log(chalk.blue('\nWatching for changes (Ctrl+C to stop)...'));
+
+    watchPaths(Object.values(watched), async changedFiles => {
+      const changes = classifyMadieChanges(changedFiles, watched);
+      const reloadAll = changes.packageChanged || changes.valueSetsChanged || changes.testCaseNamesChanged;
+      if (!reloadAll && changes.testCaseIds.length === 0) return;
+
+      log(chalk.gray('\n' + '━'.repeat(50)));
+      try {
+        if (changes.packageChanged) {
+          pkg = loadMADiEPackage(packageDir, mainLibraryName);
+          reporterContext = createReporterContext();
+          log(chalk.green(`Reloaded package: ${pkg.allLibraries.length} libraries`));
+        }
+        if (changes.valueSetsChanged) {
+          codeService = loadValueSetsForMadie(options.valuesets);
+          log(chalk.green(`Reloaded ValueSets: ${getValueSetSummary(options.valuesets).length}`));
+        }
+        if (changes.packageChanged || changes.valueSetsChanged) {
+          runTestCase = createTestCaseRunner(pkg, codeService, runnerOptions);
+        }
 
-        // For single-group measures, use descriptive format
-        if (!isMultiGroupMeasure) {
-          result.expected = { initialPopulation: r.expectedCount };
-          result.actual = { initialPopulation: r.actualCount };
+        // Reload changed test cases; everything is rerun when the package or ValueSets changed
+        let rerun: TestCase[];
+        if (changes.testCaseNamesChanged) {
+          const reselected = selectTestCases(loadTestCases(testCasesDir), selection);
+          testCases = reselected.selected;
+          skippedIds.clear();
+          reselected.skipped.forEach(tc => skippedIds.add(tc.id));
+          rerun = testCases;
         } else {
-          // For multi-group measures, keep simple counts at top level
-          result.expected = r.expectedCount;
-          result.actual = r.actualCount;
-          if (r.observations) {
-            result.observations = r.observations;
+          for (const id of changes.testCaseIds) {
+            // Read through the export reader, so test cases in a zip are reloaded too
+            const testCase = reloadTestCase(testCasesDir, id);
+            const reloaded = testCase
+              ? selectTestCases([testCase], selection)
+              : { selected: [], skipped: [] };
+            skippedIds.delete(id);
+            reloaded.skipped.forEach(tc => skippedIds.add(tc.id));
+            testCases = [...testCases.filter(tc => tc.id !== id), ...reloaded.selected]
+              .sort((a, b) => a.name.localeCompare(b.name));
           }
+          rerun = reloadAll ? testCases : testCases.filter(tc => changes.testCaseIds.includes(tc.id));
         }
-        // Only include groups for multi-group measures
-        if (isMultiGroupMeasure && r.groupComparisons) {
-          result.groups = r.groupComparisons.map(gc => ({
-            groupId: gc.groupId,
-            groupName: dynamicGroupNames[gc.groupId] || gc.groupId,
-            passed: gc.passed,
-            expected: gc.expected,
-            actual: gc.actual,
-            expectedScore: gc.expectedScore,
-            actualScore: gc.actualScore
-          }));
-        }
-        if (r.error) result.error = r.error;
-        if (r.expressions) result.expressions = r.expressions;
-        return result;
-      });
+        log(chalk.blue(`Rerunning ${rerun.length} test case(s)...\n`));
+
+        const current = new Set(testCases.map(tc => tc.id));
+        const removed = [...latest.values()].filter(r => !current.has(r.testCase.id));
+        removed.forEach(r => latest.delete(r.testCase.id));
+
+        const reruns = await runTestCases(rerun, [createPrettyReporter(reporterContext)]);
+        const delta = compareTestRuns(latest, reruns, removed.map(r => r.testCase.name));
+        reruns.forEach(r => latest.set(r.testCase.id, r));
+
+        const merged = testCases.map(tc => latest.get(tc.id)!).filter(Boolean);
+        log('');
+        reportCoverage(merged, false);
+        writeSummaryReport(merged, false);
+        writeResultFiles(merged);
+        printTestRunDelta(delta, formatResultsLine(merged, skippedIds.size), log);
+      } catch (error) {
+        console.error(chalk.red(`Error: ${(error as Error).message}`));
+      }
+      log(chalk.blue('\nWatching for changes (Ctrl+C to stop)...'));
+    });
+  }
 
-      // Save to file if --output specified
-      if (options.output) {
-        const outputPath = path.resolve(options.output);
-        const outputDir = path.dirname(outputPath);
-        if (!fs.existsSync(outputDir)) {
-          fs.mkdirSync(outputDir, { recursive: true });
+  return { packageName: mainLibraryName, reports: results, skipped: skippedIds.size };
+}
+
+/**
+ * Outcome of one measure of a madie --all run
+ */
+interface MeasureRunOutcome {
+  name: string;
+  run: MadieRunSummary | null;   // null when the measure could not be run
+  error?: string;
+}
+
+/**
+ * madie options that write files; with --all they are set per measure in the config
+ */
+const PER_MEASURE_FILE_OPTIONS: Array<keyof MadieCommandOptions> = [
+  'output', 'html', 'reporterOutput', 'saveElm', 'saveBundles', 'measureReports', 'summaryReport', 'coverageOutput'
+];
+
+/**
+ * Run every measure declared in the project config. Options given on the
+ * command line apply to every measure and take precedence over the config.
+ */
+async function runConfiguredMeasures(
+  config: ProjectConfig,
+  cliOptions: MadieCommandOptions,
+  command: Command
+): Promise<MeasureRunOutcome[]> {
+  if (cliOptions.watch) {
+    throw new Error('--watch cannot be combined with --all');
+  }
+
+  const explicit: Partial<MadieCommandOptions> = Object.fromEntries(
+    Object.entries(cliOptions).filter(([key]) => command.getOptionValueSource(key) === 'cli')
+  );
+  const fileOption = PER_MEASURE_FILE_OPTIONS.find(key => key in explicit);
+  if (fileOption) {
+    throw new Error(`--${fileOption.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`)} cannot be combined with --all; set it per measure in ${config.filePath}`);
+  }
+
+  console.log(chalk.blue(`\nRunning ${config.measures.length} measure(s) from ${config.filePath}`));
+
+  const outcomes: MeasureRunOutcome[] = [];
+  for (const [index, measure] of config.measures.entries()) {
+    console.log(chalk.blue(`\n${'═'.repeat(50)}\nMeasure ${index + 1}/${config.measures.length}: ${measure.name}`));
+
+    const options: MadieCommandOptions = {
+      ...cliOptions,
+      ...(measure.testCases ? { testCases: measure.testCases } : {}),
+      ...(measure.valuesets ? { valuesets: measure.valuesets } : {}),
+      ...(measure.library ? { library: measure.library } : {}),
+      ...(measure.options as Partial<MadieCommandOptions>),
+      ...explicit
+    };
+    const reporterName = options.json ? 'json' : options.reporter;
+
+    try {
+      if (reporterName !== 'pretty' && !options.reporterOutput) {
+        throw new Error(`The ${reporterName} reporter needs a per-measure "reporterOutput" file with --all`);
+      }
+      outcomes.push({ name: measure.name, run: await runMadiePackage(measure.package, options) });
+    } catch (error) {
+      console.error(chalk.red(`Error: ${(error as Error).message}`));
+      outcomes.push({ name: measure.name, run: null, error: (error as Error).message });
+    }
+  }
+
+  return outcomes;
+}
+
+/**
+ * Print one results line per measure and the combined results
+ */
+function printCombinedSummary(outcomes: MeasureRunOutcome[]): void {
+  const width = Math.max(...outcomes.map(o => o.name.length));
+
+  console.log(chalk.blue(`\n${'═'.repeat(50)}\nCombined Results (${outcomes.length} measures)`));
+  for (const outcome of outcomes) {
+    const status = outcome.run
+      ? formatResultCounts(outcome.run.reports, outcome.run.skipped)
+      : chalk.red(`error: ${outcome.error}`);
+    console.log(`  ${outcome.name.padEnd(width)}  ${status}`);
+  }
+
+  const runs = outcomes.flatMap(o => o.run ? [o.run] : []);
+  const failedToRun = outcomes.length - runs.length;
+  const total = formatResultsLine(
+    runs.flatMap(r => r.reports),
+    runs.reduce((sum, r) => sum + r.skipped, 0)
+  );
+  console.log(`\n${total}${failedToRun > 0 ? chalk.red(`, ${failedToRun} measure(s) could not be run`) : ''}`);
+}
+
+// MADiE command - run MADiE package test cases
+program
+  .command('madie [package-dir]')
+  .description('Run MADiE package test cases')
+  .option('--all', `Run every measure declared in the config file (${PROJECT_CONFIG_FILE})`)
+  .option('--config <file>', 'Project config file declaring measures (with --all)', PROJECT_CONFIG_FILE)
+  .option('--test-cases <dir>', 'Path to test cases directory')
+  .option('--test <uuid>', 'Run specific test case by UUID')
+  .option('--grep <regex>', 'Run test cases whose name, file name or description matches')
+  .option('--group <id>', 'Run test cases with non-zero expected populations in the group (repeatable)', collectOption)
+  .option('--only-failed <file>', 'Run test cases that failed in a previous run (--output file)')
+  .option('--exclude <uuid|name>', 'Skip test cases by UUID or name (repeatable)', collectOption)
+  .option('--valuesets <dir>', 'Path to ValueSets directory', 'valuesets/nhsn')
+  .option('--library <name>', 'Main library name (auto-detected if not specified)')
+  .option('--json', 'Output results as JSON (same as --reporter json)')
+  .option('--reporter <name>', `Result format: ${REPORTER_NAMES.join(', ')}`, 'pretty')
+  .option('--reporter-output <file>', 'Write reporter output to file (progress stays on the console)')
+  .option('--html <file>', 'Write a self-contained HTML report')
+  .option('--verbose', 'Show detailed expression results')
+  .option('--full', 'Include full expression results in output')
+  .option('--trace <define>', 'Show the evaluation tree of a define for the --test test case(s)')
+  .option('--coverage', 'Report which defines, branches and where clauses the test cases exercise')
+  .option('--coverage-output <file>', 'Write the coverage report with annotated CQL of every library (implies --coverage)')
+  .option('--output <file>', 'Save results to file (JSON format)')
+  .option('--save-elm <dir>', 'Save extracted ELM files to directory')
+  .option('--save-bundles <dir>', 'Save processed patient bundles to directory')
+  .option('--measure-reports <dir>', 'Write an individual MeasureReport per test case to directory')
+  .option('--summary-report <file>', 'Write a summary MeasureReport across all test cases')
+  .option('--score-tolerance <n>', 'Absolute tolerance for measure score comparison')
+  .option('--score-relative-tolerance <n>', 'Relative tolerance for measure score comparison (e.g. 0.01 = 1%)')
+  .option('--score-precision <digits>', 'Round measure scores to this many decimal places before comparing')
+  .option('--jobs <n>', 'Run test cases on N worker threads')
+  .option('--watch', 'Rerun affected test cases when package, test case or ValueSet files change')
+  .option('--known-failures <file>', `Known failures manifest (default: <package-dir>/${KNOWN_FAILURES_FILE})`)
+  .action(async (packageDir: string | undefined, options: MadieCommandOptions, command: Command) => {
+    try {
+      if (options.all) {
+        const config = loadProjectConfig(options.config);
+        const summaries = await runConfiguredMeasures(config, options, command);
+        printCombinedSummary(summaries);
+        // Exit with error if any measure could not run or has unexplained failures
+        if (summaries.some(s => !s.run || s.run.reports.some(isUnexplainedFailure))) {
+          process.exit(1);
         }
-        fs.writeFileSync(outputPath, JSON.stringify(outputData, null, 2));
-        console.log(chalk.green(`Results saved to: ${outputPath}`));
+        return;
       }
 
-      if (options.json) {
-        console.log(JSON.stringify(outputData, null, 2));
-      } else {
-        console.log(`Results: ${chalk.green(`${passedCount} passed`)}, ${failedCount > 0 ? chalk.red(`${failedCount} failed`) : chalk.gray('0 failed')}`);
+      if (!packageDir) {
+        throw new Error(`Specify a package directory, or use --all to run the measures in ${PROJECT_CONFIG_FILE}`);
       }
+      const run = await runMadiePackage(packageDir, options);
 
-      // Exit with error if any tests failed
-      if (failedCount > 0) {
+      // Exit with error if any tests failed (known failures excepted)
+      if (!options.watch && run.reports.some(isUnexplainedFailure)) {
         process.exit(1);
       }
-
     } catch (error) {
       console.error(chalk.red(`Error: ${(error as Error).message}`));
       if (options.verbose) {
@@ -1166,41 +1532,76 @@ program
     }
   });
 
-// Helper function to format complex values
-function formatValue(value: unknown): string {
-  if (value === null || value === undefined) {
-    return 'null';
-  }
+// Compare command - review changes between two madie runs
+program
+  .command('compare <old-results> <new-results>')
+  .description('Compare two madie results files (--output) by test case id')
+  .option('--json', 'Output the comparison as JSON')
+  .action((oldFile: string, newFile: string, options) => {
+    try {
+      const before = loadRun(oldFile);
+      const after = loadRun(newFile);
+      const comparison = compareRuns(before, after);
 
-  if (typeof value === 'object') {
-    const obj = value as Record<string, unknown>;
+      if (options.json) {
+        console.log(JSON.stringify(comparison, null, 2));
+      } else {
+        console.log(chalk.blue('\nRun Comparison'));
+        console.log(chalk.gray('━'.repeat(50)));
+        console.log(`Old: ${chalk.cyan(oldFile)} ${chalk.gray(`(${before.package ?? 'unknown'}, ${before.timestamp ?? 'no timestamp'})`)}`);
+        console.log(`New: ${chalk.cyan(newFile)} ${chalk.gray(`(${after.package ?? 'unknown'}, ${after.timestamp ?? 'no timestamp'})`)}`);
+
+        const printChanges = (change: TestCaseChange) => {
+          for (const value of [...change.countChanges, ...change.scoreChanges]) {
+            const label = value.groupId ? `${value.groupId} ${value.name}` : value.name;
+            console.log(chalk.gray(`      ${label}: ${JSON.stringify(value.before)} -> ${JSON.stringify(value.after)}`));
+          }
+        };
 
-    // FHIR resource
-    if (obj.resourceType) {
-      const id = obj.id || 'unknown';
-      return `${obj.resourceType}/${id}`;
-    }
+        const sections: Array<[string, TestCaseChange[], (text: string) => string, string]> = [
+          ['Newly failing', comparison.newlyFailing, chalk.red, '-'],
+          ['Newly passing', comparison.newlyPassing, chalk.green, '+'],
+          ['Changed results', comparison.changed, chalk.yellow, '~']
+        ];
+        for (const [title, changes, color, marker] of sections) {
+          if (changes.length === 0) continue;
+          console.log(color(`\n${title} (${changes.length}):`));
+          for (const change of changes) {
+            console.log(color(`  ${marker} ${change.name}`));
+            if (!change.after) {
+              change.failures.forEach(f => console.log(chalk.gray(`      ${f}`)));
+            }
+            printChanges(change);
+          }
+        }
+        if (comparison.added.length > 0) {
+          console.log(chalk.cyan(`\nAdded (${comparison.added.length}):`));
+          comparison.added.forEach(r => console.log(chalk.cyan(`  + ${r.title ?? r.name} [${r.passed ? 'PASS' : 'FAIL'}]`)));
+        }
+        if (comparison.removed.length > 0) {
+          console.log(chalk.gray(`\nRemoved (${comparison.removed.length}):`));
+          comparison.removed.forEach(r => console.log(chalk.gray(`  x ${r.title ?? r.name}`)));
+        }
 
-    // CQL Interval
-    if ('low' in obj && 'high' in obj) {
-      return `Interval[${formatValue(obj.low)}, ${formatValue(obj.high)}]`;
-    }
+        console.log(chalk.gray('\n' + '━'.repeat(50)));
+        const failing = comparison.newlyFailing.length;
+        console.log(
+          `Summary: ${failing > 0 ? chalk.red(`${failing} newly failing`) : chalk.gray('0 newly failing')}, ` +
+          `${chalk.green(`${comparison.newlyPassing.length} newly passing`)}, ` +
+          `${comparison.changed.length} changed, ${comparison.added.length} added, ` +
+          `${comparison.removed.length} removed, ${comparison.unchanged} unchanged`
+        );
+      }
 
-    // CQL Quantity
-    if ('value' in obj && 'unit' in obj) {
-      return `${obj.value} ${obj.unit}`;
-    }
+      // Regressions fail the command
+      if (comparison.newlyFailing.length > 0) {
+        process.exit(1);
+      }
 
-    // CQL Code
-    if ('code' in obj && 'system' in obj) {
-      return `${obj.system}|${obj.code}`;
+    } catch (error) {
+      console.error(chalk.red(`Error: ${(error as Error).message}`));
+      process.exit(1);
     }
-
-    // Generic object
-    return JSON.stringify(obj).slice(0, 100);
-  }
-
-  return String(value);
-}
+  });
 
 program.parse();
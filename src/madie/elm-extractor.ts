@@ -37,7 +37,18 @@ interface FHIRLibrary {
  */
 export function extractELMFromFHIRLibrary(libraryPath: string): ELMLibrary {
   const absolutePath = path.resolve(libraryPath);
-  const content = fs.readFileSync(absolutePath, 'utf-8');
+  return extractELMFromFHIRLibraryContent(fs.readFileSync(absolutePath, 'utf-8'));
+}
+
+/**
+ * Extract raw ELM JSON from FHIR Library resource JSON text
+ * (e.g. a library file read from a zipped MADiE package).
+ *
+ * @param content - FHIR Library JSON
+ * @returns The extracted ELM library
+ * @throws Error if library cannot be parsed or ELM content not found
+ */
+export function extractELMFromFHIRLibraryContent(content: string): ELMLibrary {
   const fhirLibrary: FHIRLibrary = JSON.parse(content);
 
   if (fhirLibrary.resourceType !== 'Library') {
@@ -129,7 +140,16 @@ export function getLibraryDependencies(libraryPath: string): Array<{ name: strin
  */
 export function getLibraryInfo(libraryPath: string): { name: string; version: string; id: string } {
   const absolutePath = path.resolve(libraryPath);
-  const content = fs.readFileSync(absolutePath, 'utf-8');
+  return getLibraryInfoFromContent(fs.readFileSync(absolutePath, 'utf-8'));
+}
+
+/**
+ * Get basic info about a FHIR Library from its JSON text.
+ *
+ * @param content - FHIR Library JSON
+ * @returns Library metadata
+ */
+export function getLibraryInfoFromContent(content: string): { name: string; version: string; id: string } {
   const fhirLibrary: FHIRLibrary = JSON.parse(content);
 
   return {
@@ -0,0 +1,103 @@
+/**
+ * MADiE Export Files
+ *
+ * Read access to a MADiE export (measure package or test cases) whether it
+ * has been unzipped into a directory or is still the downloaded .zip file.
+ * Paths are relative to the export root and '/'-separated.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { isZipPath, openZipArchive, ZipArchive } from './zip-archive.js';
+
+/**
+ * File or directory within an export
+ */
+export interface ExportEntry {
+  name: string;
+  isDirectory: boolean;
+}
+
+/**
+ * Files of a MADiE export, from a directory or a zip archive
+ */
+export interface ExportFiles {
+  location: string;   // Directory or zip path (for messages)
+  exists(relativePath: string): boolean;
+  list(relativeDir: string): ExportEntry[];
+  readText(relativePath: string): string;
+  describe(relativePath: string): string;   // Display path of a file in the export
+}
+
+function createDirectoryFiles(rootDir: string): ExportFiles {
+  const resolve = (relativePath: string) => path.join(rootDir, ...relativePath.split('/'));
+  return {
+    location: rootDir,
+    exists: relativePath => fs.existsSync(resolve(relativePath)),
+    list: relativeDir => fs.readdirSync(resolve(relativeDir), { withFileTypes: true })
+      .map(entry => ({ name: entry.name, isDirectory: entry.isDirectory() })),
+    readText: relativePath => fs.readFileSync(resolve(relativePath), 'utf-8'),
+    describe: resolve
+  };
+}
+
+function createZipFiles(archive: ZipArchive, prefix = ''): ExportFiles {
+  const fullName = (relativePath: string) => [prefix, relativePath].filter(p => p).join('/');
+
+  // Directory entries are optional in zip files, so directories are derived from file paths
+  const children = new Map<string, Map<string, boolean>>();
+  for (const entry of archive.entries.values()) {
+    if (entry.name.startsWith('__MACOSX')) continue;  // Resource forks added by macOS
+    const parts = entry.name.split('/');
+    for (let i = 0; i < parts.length; i++) {
+      const parent = parts.slice(0, i).join('/');
+      const isDirectory = i < parts.length - 1 || entry.isDirectory;
+      if (!children.has(parent)) children.set(parent, new Map());
+      children.get(parent)!.set(parts[i], isDirectory);
+    }
+  }
+
+  return {
+    location: archive.filePath,
+    exists: relativePath => {
+      const name = fullName(relativePath);
+      return archive.entries.has(name) || children.has(name);
+    },
+    list: relativeDir => {
+      const entries = children.get(fullName(relativeDir));
+      if (!entries) {
+        throw new Error(`Directory not found in ${archive.filePath}: ${fullName(relativeDir)}`);
+      }
+      return [...entries].map(([name, isDirectory]) => ({ name, isDirectory }));
+    },
+    readText: relativePath => archive.read(fullName(relativePath)).toString('utf-8'),
+    describe: relativePath => `${archive.filePath}:${fullName(relativePath)}`
+  };
+}
+
+/**
+ * Open a MADiE export from a directory or a .zip file.
+ *
+ * Zip downloads may wrap the export in a single top-level folder; when
+ * `marker` is not at the root of the archive and the archive holds exactly
+ * one folder, that folder is used as the root.
+ *
+ * @param exportPath - Directory or .zip file
+ * @param marker - File or directory expected at the export root (e.g. "resources")
+ */
+export function openExportFiles(exportPath: string, marker?: string): ExportFiles {
+  if (!isZipPath(exportPath)) {
+    return createDirectoryFiles(exportPath);
+  }
+
+  const archive = openZipArchive(exportPath);
+  const files = createZipFiles(archive);
+  if (!marker || files.exists(marker)) {
+    return files;
+  }
+  const topLevel = files.exists('') ? files.list('') : [];
+  if (topLevel.length === 1 && topLevel[0].isDirectory && files.exists(`${topLevel[0].name}/${marker}`)) {
+    return createZipFiles(archive, topLevel[0].name);
+  }
+  return files;
+}
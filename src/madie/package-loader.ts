@@ -6,10 +6,39 @@
  */
 
 import * as fs from 'fs';
-import * as path from 'path';
 import { Repository } from 'cql-execution';
 import { ELMLibrary } from '../engine/cql-runner.js';
-import { extractELMFromFHIRLibrary, getLibraryInfo } from './elm-extractor.js';
+import { extractELMFromFHIRLibraryContent, getLibraryInfoFromContent } from './elm-extractor.js';
+import { ExportFiles, openExportFiles } from './export-files.js';
+
+/**
+ * Population criteria from a Measure group
+ */
+export interface MeasurePopulation {
+  id: string;
+  code: string;
+  expression: string;        // criteria.expression (define or function name)
+  criteriaReference?: string; // For observations: id of the population being observed
+  aggregateMethod?: string;   // For observations: sum, average, median, min, max or count
+}
+
+/**
+ * Stratifier from a Measure group
+ */
+export interface MeasureStratifier {
+  id: string;
+  code: string | null;
+  expression: string | null; // criteria.expression (define returning the stratum value or members); null for component stratifiers
+  components: MeasureStratifierComponent[];  // Empty unless the stratifier is defined by components
+}
+
+/**
+ * Component of a component stratifier
+ */
+export interface MeasureStratifierComponent {
+  code: string;              // code.text or first coding, else the component id
+  expression: string;        // criteria.expression
+}
 
 /**
  * Group metadata from Measure resource
@@ -18,6 +47,19 @@ export interface MeasureGroup {
   id: string;
   description: string | null;
   hasObservations: boolean;
+  populations: MeasurePopulation[];
+  stratifiers: MeasureStratifier[];
+  populationBasis: string;   // "boolean" for patient-based, else a resource type (e.g. "Encounter")
+  scoring: string;           // proportion, ratio, continuous-variable or cohort
+}
+
+/**
+ * Supplemental data element from a Measure
+ */
+export interface MeasureSupplementalData {
+  id: string;
+  code: string | null;
+  expression: string;        // criteria.expression (e.g. "SDE Sex")
 }
 
 /**
@@ -25,9 +67,13 @@ export interface MeasureGroup {
  */
 export interface MeasureMetadata {
   name: string;
+  url: string | null;
   version: string;
+  effectivePeriod: { start: string; end: string } | null;
+  scoring: string;
   groups: MeasureGroup[];
   groupCount: number;
+  supplementalData: MeasureSupplementalData[];
 }
 
 /**
@@ -45,29 +91,45 @@ export interface MADiEPackage {
  * Library metadata
  */
 interface LibraryMetadata {
-  filePath: string;
+  content: string;
   name: string;
   version: string;
 }
 
 /**
- * Load a MADiE package from a directory.
+ * Open a MADiE package directory or zip download
+ */
+function openPackageFiles(packageDir: string): ExportFiles {
+  return openExportFiles(packageDir, 'resources');
+}
+
+/**
+ * Names of files in the package resources/ directory with a prefix (library-, measure-)
+ */
+function listResourceFiles(files: ExportFiles, prefix: string): string[] {
+  return files.list('resources')
+    .filter(entry => !entry.isDirectory && entry.name.startsWith(prefix) && entry.name.endsWith('.json'))
+    .map(entry => entry.name)
+    .sort();
+}
+
+/**
+ * Load a MADiE package from a directory or the zip file downloaded from MADiE.
  *
- * @param packageDir - Path to the MADiE package directory (e.g., NHSNACHMonthly1-v0.0.000-FHIR)
+ * @param packageDir - Path to the MADiE package directory or .zip file (e.g., NHSNACHMonthly1-v0.0.000-FHIR)
  * @param mainLibraryName - Name of the main library (e.g., "NHSNAcuteCareHospitalMonthlyInitialPopulation1")
  * @returns The loaded package with all libraries
  */
 export function loadMADiEPackage(packageDir: string, mainLibraryName: string): MADiEPackage {
-  const resourcesDir = path.join(packageDir, 'resources');
+  const packageFiles = openPackageFiles(packageDir);
+  const resourcesDir = packageFiles.describe('resources');
 
-  if (!fs.existsSync(resourcesDir)) {
+  if (!packageFiles.exists('resources')) {
     throw new Error(`Resources directory not found: ${resourcesDir}`);
   }
 
   // Find all library files
-  const files = fs.readdirSync(resourcesDir).filter(f =>
-    f.startsWith('library-') && f.endsWith('.json')
-  );
+  const files = listResourceFiles(packageFiles, 'library-');
 
   if (files.length === 0) {
     throw new Error(`No library files found in ${resourcesDir}`);
@@ -77,10 +139,10 @@ export function loadMADiEPackage(packageDir: string, mainLibraryName: string): M
   const libraryMeta: LibraryMetadata[] = [];
   for (const file of files) {
     try {
-      const filePath = path.join(resourcesDir, file);
-      const info = getLibraryInfo(filePath);
+      const content = packageFiles.readText(`resources/${file}`);
+      const info = getLibraryInfoFromContent(content);
       libraryMeta.push({
-        filePath,
+        content,
         name: info.name,
         version: info.version
       });
@@ -104,7 +166,7 @@ export function loadMADiEPackage(packageDir: string, mainLibraryName: string): M
 
   for (const meta of libraryMeta) {
     try {
-      const elm = extractELMFromFHIRLibrary(meta.filePath);
+      const elm = extractELMFromFHIRLibraryContent(meta.content);
       allLibraries.push(elm);
 
       if (meta.name === mainLibraryName) {
@@ -128,7 +190,7 @@ export function loadMADiEPackage(packageDir: string, mainLibraryName: string): M
   const valueSetUrls = extractValueSetUrls(mainLibrary);
 
   // Load Measure metadata for group names
-  const measureMetadata = loadMeasureMetadata(resourcesDir);
+  const measureMetadata = loadMeasureMetadata(packageFiles);
 
   return {
     mainLibrary,
@@ -142,22 +204,43 @@ export function loadMADiEPackage(packageDir: string, mainLibraryName: string): M
 /**
  * Load Measure resource and extract group metadata.
  *
- * @param resourcesDir - Path to the resources directory
+ * @param packageFiles - The package files
  * @returns Measure metadata or null if not found
  */
-function loadMeasureMetadata(resourcesDir: string): MeasureMetadata | null {
+function loadMeasureMetadata(packageFiles: ExportFiles): MeasureMetadata | null {
   // Find measure file
-  const files = fs.readdirSync(resourcesDir).filter(f =>
-    f.startsWith('measure-') && f.endsWith('.json')
-  );
+  const files = listResourceFiles(packageFiles, 'measure-');
 
   if (files.length === 0) {
     return null;
   }
 
+  return parseMeasureMetadata(packageFiles.readText(`resources/${files[0]}`));
+}
+
+/**
+ * Load group metadata from a Measure resource file.
+ *
+ * @param measurePath - Path to a Measure JSON file
+ * @returns Measure metadata or null if the file is not a Measure
+ */
+export function loadMeasureMetadataFromFile(measurePath: string): MeasureMetadata | null {
+  try {
+    return parseMeasureMetadata(fs.readFileSync(measurePath, 'utf-8'));
+  } catch (err) {
+    console.warn('Warning: Could not load Measure metadata:', err);
+    return null;
+  }
+}
+
+/**
+ * Extract group metadata from Measure resource JSON text.
+ *
+ * @param content - Measure JSON
+ * @returns Measure metadata or null if the content is not a Measure
+ */
+function parseMeasureMetadata(content: string): MeasureMetadata | null {
   try {
-    const measurePath = path.join(resourcesDir, files[0]);
-    const content = fs.readFileSync(measurePath, 'utf-8');
     const measure = JSON.parse(content);
 
     if (measure.resourceType !== 'Measure') {
@@ -165,6 +248,7 @@ function loadMeasureMetadata(resourcesDir: string): MeasureMetadata | null {
     }
 
     const groups: MeasureGroup[] = [];
+    const measureScoring = measure.scoring?.coding?.[0]?.code || 'unknown';
 
     if (Array.isArray(measure.group)) {
       for (const group of measure.group) {
@@ -180,16 +264,26 @@ function loadMeasureMetadata(resourcesDir: string): MeasureMetadata | null {
         groups.push({
           id: group.id || `Group_${groups.length + 1}`,
           description: group.description?.trim() || null,
-          hasObservations
+          hasObservations,
+          populations: extractGroupPopulations(group),
+          stratifiers: extractGroupStratifiers(group),
+          populationBasis: findExtension(group, 'cqfm-populationBasis')?.valueCode || 'boolean',
+          scoring: findExtension(group, 'cqfm-scoring')?.valueCodeableConcept?.coding?.[0]?.code || measureScoring
         });
       }
     }
 
     return {
       name: measure.name || measure.title || 'Unknown',
+      url: measure.url || null,
       version: measure.version || '0.0.0',
+      effectivePeriod: measure.effectivePeriod?.start && measure.effectivePeriod?.end
+        ? { start: measure.effectivePeriod.start, end: measure.effectivePeriod.end }
+        : null,
+      scoring: measureScoring,
       groups,
-      groupCount: groups.length
+      groupCount: groups.length,
+      supplementalData: extractSupplementalData(measure)
     };
   } catch (err) {
     console.warn('Warning: Could not load Measure metadata:', err);
@@ -197,6 +291,103 @@ function loadMeasureMetadata(resourcesDir: string): MeasureMetadata | null {
   }
 }
 
+/**
+ * Find a CQF Measures extension by its StructureDefinition name.
+ */
+function findExtension(element: any, name: string): any {
+  if (!Array.isArray(element?.extension)) {
+    return undefined;
+  }
+  return element.extension.find((ext: any) => ext.url?.endsWith(`/${name}`));
+}
+
+/**
+ * Extract population criteria from a Measure group.
+ */
+function extractGroupPopulations(group: any): MeasurePopulation[] {
+  const populations: MeasurePopulation[] = [];
+
+  if (!Array.isArray(group.population)) {
+    return populations;
+  }
+
+  for (const pop of group.population) {
+    const code = pop.code?.coding?.[0]?.code;
+    const expression = pop.criteria?.expression;
+    if (!code || !expression) continue;
+
+    // Observations point at the population they observe via an extension
+    const criteriaReference = findExtension(pop, 'cqfm-criteriaReference')?.valueString;
+
+    populations.push({
+      id: pop.id || `${code}-${populations.length + 1}`,
+      code,
+      expression,
+      criteriaReference,
+      aggregateMethod: findExtension(pop, 'cqfm-aggregateMethod')?.valueCode
+    });
+  }
+
+  return populations;
+}
+
+/**
+ * Extract stratifiers from a Measure group.
+ * Stratifiers have either a single criteria expression or components,
+ * each with its own criteria expression.
+ */
+function extractGroupStratifiers(group: any): MeasureStratifier[] {
+  const stratifiers: MeasureStratifier[] = [];
+
+  if (!Array.isArray(group.stratifier)) {
+    return stratifiers;
+  }
+
+  for (const stratifier of group.stratifier) {
+    const expression = stratifier.criteria?.expression;
+    const components: MeasureStratifierComponent[] = (stratifier.component ?? [])
+      .filter((component: any) => component.criteria?.expression)
+      .map((component: any, i: number) => ({
+        code: component.code?.text || component.code?.coding?.[0]?.code || component.id || `Component_${i + 1}`,
+        expression: component.criteria.expression
+      }));
+    if (!expression && components.length === 0) continue;
+
+    stratifiers.push({
+      id: stratifier.id || `Stratifier_${stratifiers.length + 1}`,
+      code: stratifier.code?.text || stratifier.code?.coding?.[0]?.code || null,
+      expression: expression || null,
+      components: expression ? [] : components
+    });
+  }
+
+  return stratifiers;
+}
+
+/**
+ * Extract supplemental data elements from a Measure.
+ */
+function extractSupplementalData(measure: any): MeasureSupplementalData[] {
+  const elements: MeasureSupplementalData[] = [];
+
+  if (!Array.isArray(measure.supplementalData)) {
+    return elements;
+  }
+
+  for (const sde of measure.supplementalData) {
+    const expression = sde.criteria?.expression;
+    if (!expression) continue;
+
+    elements.push({
+      id: sde.id || expression,
+      code: sde.code?.text || sde.code?.coding?.[0]?.code || null,
+      expression
+    });
+  }
+
+  return elements;
+}
+
 /**
  * Extract ValueSet URLs from an ELM library.
  */
@@ -227,27 +418,25 @@ export function createRepository(pkg: MADiEPackage): Repository {
 }
 
 /**
- * List available libraries in a MADiE package directory.
+ * List available libraries in a MADiE package directory or zip file.
  *
- * @param packageDir - Path to the MADiE package directory
+ * @param packageDir - Path to the MADiE package directory or .zip file
  * @returns Array of library names and versions
  */
 export function listPackageLibraries(packageDir: string): Array<{ name: string; version: string }> {
-  const resourcesDir = path.join(packageDir, 'resources');
+  const packageFiles = openPackageFiles(packageDir);
 
-  if (!fs.existsSync(resourcesDir)) {
+  if (!packageFiles.exists('resources')) {
     return [];
   }
 
-  const files = fs.readdirSync(resourcesDir).filter(f =>
-    f.startsWith('library-') && f.endsWith('.json')
-  );
+  const files = listResourceFiles(packageFiles, 'library-');
 
   const libraries: Array<{ name: string; version: string }> = [];
 
   for (const file of files) {
     try {
-      const info = getLibraryInfo(path.join(resourcesDir, file));
+      const info = getLibraryInfoFromContent(packageFiles.readText(`resources/${file}`));
       libraries.push({ name: info.name, version: info.version });
     } catch {
       // Skip invalid files
@@ -0,0 +1,104 @@
+/**
+ * Project Config
+ *
+ * cql.config.json declares the measures of a test suite so they can all be
+ * run with `madie --all` instead of one hand-typed command per measure.
+ *
+ * Example cql.config.json:
+ *   {
+ *     "measures": [
+ *       {
+ *         "name": "NHSN Monthly",
+ *         "package": "NHSNACHMonthly1-v0.0.000-FHIR",
+ *         "testCases": "NHSNACHMonthly1-v0.0.000-FHIR-TestCases",
+ *         "valuesets": "valuesets/nhsn",
+ *         "library": "NHSNAcuteCareHospitalMonthlyInitialPopulation1",
+ *         "options": { "output": "results/nhsn/results.json", "jobs": 4 }
+ *       }
+ *     ]
+ *   }
+ *
+ * Paths are relative to the config file. "options" takes the madie command
+ * options in camelCase (scoreTolerance, knownFailures, html, ...).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Default config file name, looked up in the working directory
+ */
+export const PROJECT_CONFIG_FILE = 'cql.config.json';
+
+/**
+ * madie options that name files or directories, resolved relative to the config file
+ */
+const PATH_OPTIONS = [
+  'output', 'html', 'reporterOutput', 'saveElm', 'saveBundles',
+  'measureReports', 'summaryReport', 'knownFailures', 'onlyFailed', 'coverageOutput'
+];
+
+/**
+ * A measure declared in the config
+ */
+export interface MeasureConfig {
+  name: string;                        // Defaults to the package file name
+  package: string;
+  testCases?: string;                  // Auto-detected next to the package if omitted
+  valuesets?: string;
+  library?: string;                    // Auto-detected if omitted
+  options: Record<string, unknown>;    // madie command options
+}
+
+/**
+ * A loaded cql.config.json
+ */
+export interface ProjectConfig {
+  filePath: string;
+  measures: MeasureConfig[];
+}
+
+/**
+ * Load a project config, resolving paths relative to the config file
+ *
+ * @param filePath - Path to cql.config.json
+ * @throws Error if the file is missing or a measure has no package
+ */
+export function loadProjectConfig(filePath: string): ProjectConfig {
+  const absolutePath = path.resolve(filePath);
+  if (!fs.existsSync(absolutePath)) {
+    throw new Error(`Config file not found: ${absolutePath}`);
+  }
+
+  const content = JSON.parse(fs.readFileSync(absolutePath, 'utf-8'));
+  if (!Array.isArray(content?.measures) || content.measures.length === 0) {
+    throw new Error(`Invalid config (no measures array): ${absolutePath}`);
+  }
+
+  const baseDir = path.dirname(absolutePath);
+  const resolve = (value: unknown) => typeof value === 'string' ? path.resolve(baseDir, value) : undefined;
+
+  const measures = content.measures.map((entry: any, index: number): MeasureConfig => {
+    if (typeof entry?.package !== 'string') {
+      throw new Error(`Invalid measure #${index + 1} in ${absolutePath}: "package" is required`);
+    }
+
+    const options: Record<string, unknown> = { ...(entry.options ?? {}) };
+    for (const key of PATH_OPTIONS) {
+      if (typeof options[key] === 'string') {
+        options[key] = resolve(options[key]);
+      }
+    }
+
+    return {
+      name: entry.name ?? path.basename(entry.package).replace(/\.zip$/i, ''),
+      package: resolve(entry.package)!,
+      testCases: resolve(entry.testCases),
+      valuesets: resolve(entry.valuesets),
+      library: entry.library,
+      options
+    };
+  });
+
+  return { filePath: absolutePath, measures };
+}
@@ -9,6 +9,7 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { ExportFiles, openExportFiles } from './export-files.js';
 
 /**
  * FHIR Bundle types
@@ -28,34 +29,132 @@ interface FHIRBundle {
 }
 
 /**
- * Individual observation values within a group
- * For Groups 1-4: only obs1 is used (the single observation for that group)
- * For Group 5-6: obs1-obs4 represent the individual observation totals
+ * Individual observation values within a group, one per observed member,
+ * keyed by MeasureReport population id (e.g. "MeasureObservation_5_3")
  */
-export interface ObservationValues {
-  obs1: number;
-  obs2: number;
-  obs3: number;
-  obs4: number;
+export type ObservationValues = Record<string, number>;
+
+/**
+ * Build the MADiE population id for the nth observation of a group.
+ *
+ * @param groupNumber - 1-based position of the group in the Measure
+ * @param index - 1-based observation index within the group
+ */
+export function observationKey(groupNumber: number, index: number): string {
+  return `MeasureObservation_${groupNumber}_${index}`;
 }
 
 /**
  * Population counts within a group
+ * Proportion measures use the denominator/numerator populations,
+ * continuous variable measures use the measure population ones.
  */
 export interface PopulationCounts {
   initialPopulation: number;
+  denominator: number;
+  denominatorExclusion: number;
+  denominatorException: number;
+  numerator: number;
+  numeratorExclusion: number;
   measurePopulation: number;
   measurePopulationExclusion: number;
   observations: ObservationValues;  // Individual observation values
 }
 
+/**
+ * Population count fields (every PopulationCounts field except observations)
+ */
+export type PopulationCountKey = Exclude<keyof PopulationCounts, 'observations'>;
+
+/**
+ * Map of measure-population codes to PopulationCounts fields
+ */
+export const POPULATION_COUNT_KEYS: Record<string, PopulationCountKey> = {
+  'initial-population': 'initialPopulation',
+  'denominator': 'denominator',
+  'denominator-exclusion': 'denominatorExclusion',
+  'denominator-exception': 'denominatorException',
+  'numerator': 'numerator',
+  'numerator-exclusion': 'numeratorExclusion',
+  'measure-population': 'measurePopulation',
+  'measure-population-exclusion': 'measurePopulationExclusion'
+};
+
+/**
+ * Normalize a stratum value for matching expected and actual strata
+ */
+export function normalizeStratumValue(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+/**
+ * Stratum value of a component stratifier's stratum, from its component codes and values
+ */
+export function componentStratumValue(components: StratumComponent[]): string {
+  return normalizeStratumValue(components.map(c => `${c.code}=${c.value}`).join(', '));
+}
+
+/**
+ * Create population counts with every population set to zero
+ */
+export function emptyPopulationCounts(): PopulationCounts {
+  return {
+    initialPopulation: 0,
+    denominator: 0,
+    denominatorExclusion: 0,
+    denominatorException: 0,
+    numerator: 0,
+    numeratorExclusion: 0,
+    measurePopulation: 0,
+    measurePopulationExclusion: 0,
+    observations: {}
+  };
+}
+
+/**
+ * Code and value of one component of a component stratifier's stratum
+ */
+export interface StratumComponent {
+  code: string;
+  value: string;
+}
+
+/**
+ * Population counts and score for a single stratum
+ */
+export interface StratumResults {
+  value: string;             // Normalized stratum value (e.g. "true", a code; "code=value, ..." for components)
+  components?: StratumComponent[];  // Component stratifiers only
+  populations: Record<PopulationCountKey, number>;
+  measureScore: number | null;  // null when the MeasureReport has no score
+  observations?: Record<string, number[]>;  // Observation values of the stratum's members by observation population id (actual results only)
+}
+
+/**
+ * Strata for a single stratifier
+ */
+export interface StratifierResults {
+  stratifierId: string;
+  strata: StratumResults[];
+}
+
 /**
  * Group-level expected results
  */
 export interface ExpectedGroup {
   groupId: string;
   populations: PopulationCounts;
-  measureScore: number;
+  measureScore: number | null;  // null when the MeasureReport has no score
+  stratifiers: StratifierResults[];
+}
+
+/**
+ * Expected supplemental data values for one SDE, from the MeasureReport's
+ * contained resources and evaluatedResource references
+ */
+export interface ExpectedSupplementalData {
+  criteriaReference: string;  // Measure.supplementalData id
+  values: string[];           // Normalized codes and resource references
 }
 
 /**
@@ -72,6 +171,7 @@ export interface ExpectedResults {
     count: number;
   }>;
   groups: ExpectedGroup[];
+  supplementalData: ExpectedSupplementalData[];
   measureScore?: number;
   description?: string;
 }
@@ -94,13 +194,17 @@ export interface TestCase {
  * @returns Map of UUID to test name
  */
 export function parseReadmeMapping(readmePath: string): Map<string, string> {
-  const mapping = new Map<string, string>();
-
   if (!fs.existsSync(readmePath)) {
-    return mapping;
+    return new Map();
   }
+  return parseReadmeContent(fs.readFileSync(readmePath, 'utf-8'));
+}
 
-  const content = fs.readFileSync(readmePath, 'utf-8');
+/**
+ * Parse README.txt content to get UUID to test name mapping.
+ */
+function parseReadmeContent(content: string): Map<string, string> {
+  const mapping = new Map<string, string>();
   const lines = content.split('\n');
 
   for (const line of lines) {
@@ -116,6 +220,15 @@ export function parseReadmeMapping(readmePath: string): Map<string, string> {
   return mapping;
 }
 
+/**
+ * Read the UUID to test name mapping from an export's README.txt, if it has one.
+ */
+function readNameMapping(files: ExportFiles): Map<string, string> {
+  return files.exists('README.txt')
+    ? parseReadmeContent(files.readText('README.txt'))
+    : new Map();
+}
+
 /**
  * Convert a bundle to a collection bundle for CQL execution.
  * Handles both transaction and collection bundle types.
@@ -215,12 +328,7 @@ export function extractExpectedResults(bundle: FHIRBundle): ExpectedResults {
 
       // Structured group extraction
       const groupId = group.id || `Group_${groups.length + 1}`;
-      const groupPops: PopulationCounts = {
-        initialPopulation: 0,
-        measurePopulation: 0,
-        measurePopulationExclusion: 0,
-        observations: { obs1: 0, obs2: 0, obs3: 0, obs4: 0 }
-      };
+      const groupPops = emptyPopulationCounts();
 
       if (group.population) {
         for (const pop of group.population) {
@@ -228,43 +336,24 @@ export function extractExpectedResults(bundle: FHIRBundle): ExpectedResults {
           const count = pop.count ?? 0;
           const popId = pop.id || '';
 
+          const countKey = POPULATION_COUNT_KEYS[code];
+          if (countKey) {
+            groupPops[countKey] = count;
+            continue;
+          }
+
           switch (code) {
-            case 'initial-population':
-              groupPops.initialPopulation = count;
-              break;
-            case 'measure-population':
-              groupPops.measurePopulation = count;
-              break;
-            case 'measure-population-exclusion':
-              groupPops.measurePopulationExclusion = count;
-              break;
             case 'measure-population-observation':
-            case 'measure-observation':
-              // Parse observation index from id: "MeasureObservation_N_X" where X is 1-4
-              // For Groups 1-4: id is like "MeasureObservation_1_1", "MeasureObservation_1_2" (encounter-level)
-              // For Groups 5-6: id is like "MeasureObservation_5_1" (obs1), "MeasureObservation_5_2" (obs2)
-              const obsMatch = popId.match(/MeasureObservation_\d+_(\d+)/);
-              if (obsMatch) {
-                const obsIndex = parseInt(obsMatch[1], 10);
-                // For Groups 1-4, all observations go to obs1 (sum of per-encounter values)
-                // For Groups 5-6, observations map to obs1-4
-                if (groupId === 'Group_5' || groupId === 'Group_6') {
-                  // Direct mapping: MeasureObservation_5_1 -> obs1, _5_2 -> obs2, etc.
-                  switch (obsIndex) {
-                    case 1: groupPops.observations.obs1 = count; break;
-                    case 2: groupPops.observations.obs2 = count; break;
-                    case 3: groupPops.observations.obs3 = count; break;
-                    case 4: groupPops.observations.obs4 = count; break;
-                  }
-                } else {
-                  // Groups 1-4: sum all observations into obs1
-                  groupPops.observations.obs1 += count;
-                }
-              } else {
-                // Fallback: sum into obs1
-                groupPops.observations.obs1 += count;
-              }
+            case 'measure-observation': {
+              // MADiE exports one observation per member with the value in count,
+              // e.g. "MeasureObservation_1_1", "MeasureObservation_1_2"
+              const observations = groupPops.observations;
+              const key = popId && !(popId in observations)
+                ? popId
+                : observationKey(groups.length + 1, Object.keys(observations).length + 1);
+              observations[key] = count;
               break;
+            }
           }
         }
       }
@@ -272,7 +361,8 @@ export function extractExpectedResults(bundle: FHIRBundle): ExpectedResults {
       groups.push({
         groupId,
         populations: groupPops,
-        measureScore: group.measureScore?.value ?? 0
+        measureScore: group.measureScore?.value ?? null,
+        stratifiers: extractExpectedStratifiers(group)
       });
     }
   }
@@ -299,11 +389,116 @@ export function extractExpectedResults(bundle: FHIRBundle): ExpectedResults {
     measurementPeriod,
     populations,
     groups,
+    supplementalData: extractExpectedSupplementalData(measureReport),
     measureScore,
     description
   };
 }
 
+/**
+ * Extract expected stratifier results from a MeasureReport group.
+ *
+ * @param group - The MeasureReport group
+ * @returns Strata per stratifier
+ */
+function extractExpectedStratifiers(group: any): StratifierResults[] {
+  const stratifiers: StratifierResults[] = [];
+
+  if (!Array.isArray(group.stratifier)) {
+    return stratifiers;
+  }
+
+  for (const stratifier of group.stratifier) {
+    const stratifierId = stratifier.id ||
+      stratifier.code?.[0]?.text ||
+      `Stratifier_${stratifiers.length + 1}`;
+    const strata: StratumResults[] = [];
+
+    for (const stratum of stratifier.stratum ?? []) {
+      const components: StratumComponent[] | undefined = Array.isArray(stratum.component)
+        ? stratum.component.map((component: any, i: number) => ({
+          code: component.code?.text ?? component.code?.coding?.[0]?.code ?? `Component_${i + 1}`,
+          value: String(component.value?.text ?? component.value?.coding?.[0]?.code)
+        }))
+        : undefined;
+      const value = components ? componentStratumValue(components) : stratum.value?.text ?? stratum.value?.coding?.[0]?.code;
+      if (value === undefined || value === null) continue;
+
+      const populations = Object.fromEntries(
+        Object.values(POPULATION_COUNT_KEYS).map(key => [key, 0])
+      ) as Record<PopulationCountKey, number>;
+      for (const pop of stratum.population ?? []) {
+        const countKey = POPULATION_COUNT_KEYS[pop.code?.coding?.[0]?.code];
+        if (countKey) {
+          populations[countKey] = pop.count ?? 0;
+        }
+      }
+
+      strata.push({
+        value: normalizeStratumValue(String(value)),
+        ...(components && { components }),
+        populations,
+        measureScore: stratum.measureScore?.value ?? null
+      });
+    }
+
+    stratifiers.push({ stratifierId, strata });
+  }
+
+  return stratifiers;
+}
+
+/**
+ * Get the criteria reference (SDE id) from an element's extensions.
+ */
+function getCriteriaReference(element: any): string | undefined {
+  return element?.extension?.find(
+    (ext: any) => ext.url?.endsWith('criteriaReference')
+  )?.valueString;
+}
+
+/**
+ * Extract expected supplemental data from a MeasureReport.
+ * Reads contained resources tagged with a criteriaReference (their value or
+ * code codings) and evaluatedResource references tagged the same way.
+ *
+ * @param measureReport - The MeasureReport resource
+ * @returns Expected values per SDE
+ */
+function extractExpectedSupplementalData(measureReport: any): ExpectedSupplementalData[] {
+  const byReference = new Map<string, Set<string>>();
+  const add = (reference: string, value: string) => {
+    if (!byReference.has(reference)) {
+      byReference.set(reference, new Set());
+    }
+    byReference.get(reference)!.add(value.trim().toLowerCase());
+  };
+
+  for (const contained of measureReport.contained ?? []) {
+    const reference = getCriteriaReference(contained);
+    if (!reference) continue;
+
+    const codings = contained.valueCodeableConcept?.coding ?? contained.code?.coding ?? [];
+    for (const coding of codings) {
+      if (coding.code) {
+        add(reference, String(coding.code));
+      }
+    }
+  }
+
+  for (const evaluated of measureReport.evaluatedResource ?? []) {
+    const reference = getCriteriaReference(evaluated);
+    if (reference && evaluated.reference) {
+      add(reference, evaluated.reference);
+    }
+  }
+
+  return [...byReference.entries()].map(([criteriaReference, values]) => ({
+    criteriaReference,
+    values: [...values].sort()
+  }));
+}
+
 /**
  * Load a single test case from a directory.
  *
@@ -312,18 +507,29 @@ export function extractExpectedResults(bundle: FHIRBundle): ExpectedResults {
  * @returns The test case
  */
 export function loadTestCase(testCaseDir: string, testName: string): TestCase {
-  const uuid = path.basename(testCaseDir);
+  return readTestCase(openExportFiles(path.dirname(testCaseDir)), path.basename(testCaseDir), testName);
+}
 
+/**
+ * Read a test case from its UUID folder in a test cases export.
+ *
+ * @param files - The test cases export (directory or zip)
+ * @param uuid - Test case UUID folder name
+ * @param testName - Human-readable test name
+ * @returns The test case
+ */
+function readTestCase(files: ExportFiles, uuid: string, testName: string): TestCase {
   // Find the JSON file in the directory
-  const files = fs.readdirSync(testCaseDir).filter(f => f.endsWith('.json'));
+  const jsonFiles = files.list(uuid)
+    .filter(entry => !entry.isDirectory && entry.name.endsWith('.json'))
+    .map(entry => entry.name);
 
-  if (files.length === 0) {
-    throw new Error(`No JSON file found in ${testCaseDir}`);
+  if (jsonFiles.length === 0) {
+    throw new Error(`No JSON file found in ${files.describe(uuid)}`);
   }
 
-  const originalFileName = files[0];
-  const bundlePath = path.join(testCaseDir, originalFileName);
-  const content = fs.readFileSync(bundlePath, 'utf-8');
+  const originalFileName = jsonFiles[0];
+  const content = files.readText(`${uuid}/${originalFileName}`);
   const bundle: FHIRBundle = JSON.parse(content);
 
   // Extract expected results before converting
@@ -347,9 +553,9 @@ export function loadTestCase(testCaseDir: string, testName: string): TestCase {
 }
 
 /**
- * Load all test cases from a test cases directory.
+ * Load all test cases from a test cases directory or the zip file downloaded from MADiE.
  *
- * @param testCasesDir - Path to the test cases directory
+ * @param testCasesDir - Path to the test cases directory or .zip file
  * @returns Array of test cases
  */
 export function loadTestCases(testCasesDir: string): TestCase[] {
@@ -357,26 +563,24 @@ export function loadTestCases(testCasesDir: string): TestCase[] {
     throw new Error(`Test cases directory not found: ${testCasesDir}`);
   }
 
-  // Parse README.txt for name mapping
-  const readmePath = path.join(testCasesDir, 'README.txt');
-  const nameMapping = parseReadmeMapping(readmePath);
+  const files = openExportFiles(testCasesDir, 'README.txt');
+  const nameMapping = readNameMapping(files);
 
   // Get all UUID directories
-  const entries = fs.readdirSync(testCasesDir, { withFileTypes: true });
+  const entries = files.exists('') ? files.list('') : [];
   const testCases: TestCase[] = [];
 
   for (const entry of entries) {
-    if (!entry.isDirectory()) continue;
+    if (!entry.isDirectory) continue;
 
     // Check if it looks like a UUID
     const uuid = entry.name;
     if (!/^[a-f0-9-]{36}$/i.test(uuid)) continue;
 
     const testName = nameMapping.get(uuid) || uuid;
-    const testCaseDir = path.join(testCasesDir, uuid);
 
     try {
-      const testCase = loadTestCase(testCaseDir, testName);
+      const testCase = readTestCase(files, uuid, testName);
       testCases.push(testCase);
     } catch (err) {
       console.warn(`Warning: Could not load test case ${testName}:`, err);
@@ -389,6 +593,24 @@ export function loadTestCases(testCasesDir: string): TestCase[] {
   return testCases;
 }
 
+/**
+ * Load one test case from a test cases directory or zip file, as loadTestCases would.
+ *
+ * @param testCasesDir - Path to the test cases directory or .zip file
+ * @param uuid - Test case UUID folder name
+ * @returns The test case, or null when the export no longer has it
+ */
+export function reloadTestCase(testCasesDir: string, uuid: string): TestCase | null {
+  if (!fs.existsSync(testCasesDir)) {
+    return null;
+  }
+  const files = openExportFiles(testCasesDir, 'README.txt');
+  if (!files.exists(uuid)) {
+    return null;
+  }
+  return readTestCase(files, uuid, readNameMapping(files).get(uuid) || uuid);
+}
+
 /**
  * Get patient ID from a bundle.
  *
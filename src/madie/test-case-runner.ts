@@ -0,0 +1,247 @@
+/**
+ * Test Case Runner
+ *
+ * Executes a single MADiE test case against the package's main library and
+ * compares the actual results with the test case's expected MeasureReport.
+ * Used by the madie command directly and by worker threads (--jobs).
+ */
+
+import { Library, Executor, DateTime, Interval, CodeService } from 'cql-execution';
+import { PatientSource } from 'cql-exec-fhir';
+import { createFunctionEvaluator, FunctionEvaluator } from '../engine/cql-runner.js';
+import { traceExpression, TraceNode } from '../engine/expression-trace.js';
+import { CoverageData, recordCoverage } from '../engine/logic-coverage.js';
+import { MADiEPackage, MeasureGroup, createRepository } from './package-loader.js';
+import {
+  TestCase,
+  ObservationValues,
+  getPatientIdFromBundle,
+  observationKey,
+} from './test-bundle-processor.js';
+import {
+  calculateActualGroups,
+  calculatePopulationMembers,
+  getPopulationExpression,
+  GroupMembers,
+  GroupObservations,
+} from '../measure/population-calculator.js';
+import { countPopulation } from '../measure/population-members.js';
+import {
+  calculateObservationScore,
+  evaluateGroupObservations,
+  ObservationResult,
+} from '../measure/observation-evaluator.js';
+import { compareGroups, GroupComparison, ScoreComparisonOptions } from '../measure/group-comparison.js';
+import { collectSupplementalData, SupplementalDataResult } from '../measure/supplemental-data.js';
+import { getEvaluatedResourceReferences, PatientMeasureResults } from '../measure/measure-report.js';
+
+/**
+ * Options for running test cases
+ */
+export interface TestCaseRunnerOptions {
+  scoreOptions?: ScoreComparisonOptions;
+  includeExpressions?: boolean;  // Return every expression result (--full, --verbose)
+  trace?: string;                // Define whose evaluation tree is returned (--trace)
+  coverage?: boolean;            // Record the logic each test case exercises (--coverage)
+}
+
+/**
+ * Result of running a single test case.
+ * Contains only plain data, so it can be passed between worker threads.
+ */
+export interface TestCaseResult {
+  passed: boolean;
+  actualCount: number;
+  expectedCount: number;
+  patientId?: string;
+  groupComparisons?: GroupComparison[];
+  observations?: Record<string, ObservationValues>;
+  supplementalData?: SupplementalDataResult[];
+  measureResults?: PatientMeasureResults;
+  evaluatedResources?: string[];
+  error?: string;
+  expressions?: Record<string, unknown>;
+  trace?: TraceNode;
+  coverage?: CoverageData;
+  durationMs?: number;
+}
+
+/**
+ * Runs one test case
+ */
+export type TestCaseRunner = (testCase: TestCase) => Promise<TestCaseResult>;
+
+/**
+ * Create the CQL Measurement Period parameter from ISO date strings
+ */
+export function createMeasurementPeriod(start: string, end: string): Interval {
+  const mpStart = DateTime.fromJSDate(new Date(start), 0); // 0 = UTC offset
+  const mpEnd = DateTime.fromJSDate(new Date(end), 0);
+  return new Interval(mpStart, mpEnd, true, true);
+}
+
+/**
+ * Map observation results onto a group's observation values, keyed like
+ * the MeasureReport ids (MeasureObservation_{group}_{n}) across all of the
+ * group's observation populations.
+ * The measure score is calculated from the observation aggregates (see calculateObservationScore).
+ */
+function toGroupObservations(group: MeasureGroup, groupNumber: number, results: ObservationResult[]): GroupObservations {
+  const observations: ObservationValues = {};
+  for (const value of results.flatMap(r => r.values)) {
+    observations[observationKey(groupNumber, Object.keys(observations).length + 1)] = value;
+  }
+  return { observations, measureScore: calculateObservationScore(group, results), results };
+}
+
+/**
+ * Evaluate a patient's observations and calculate actual results for each group
+ */
+export async function evaluateMeasureGroups(
+  groups: MeasureGroup[],
+  patientResults: Record<string, unknown>,
+  evaluate: FunctionEvaluator | null
+): Promise<PatientMeasureResults> {
+  const members: Record<string, GroupMembers> = {};
+  const observations: Record<string, GroupObservations> = {};
+  for (const [i, group] of groups.entries()) {
+    members[group.id] = calculatePopulationMembers(group, patientResults);
+    if (!evaluate || !group.hasObservations) continue;
+    const observationResults = await evaluateGroupObservations(group, patientResults, members[group.id].memberSets, evaluate);
+    observations[group.id] = toGroupObservations(group, i + 1, observationResults);
+  }
+  return { groups: calculateActualGroups(groups, patientResults, observations, members), observations };
+}
+
+/**
+ * Create a runner for a package's test cases.
+ * The main library is built once and shared by every test case.
+ *
+ * @param pkg - The loaded MADiE package
+ * @param codeService - ValueSets for the package
+ * @param options - Score comparison and output options
+ * @returns Function that runs a single test case; errors are returned, not thrown
+ */
+export function createTestCaseRunner(
+  pkg: MADiEPackage,
+  codeService: CodeService,
+  options: TestCaseRunnerOptions = {}
+): TestCaseRunner {
+  const mainLibrary = new Library(pkg.mainLibrary, createRepository(pkg));
+  const measureGroups = pkg.measureMetadata?.groups ?? [];
+
+  return async (testCase: TestCase): Promise<TestCaseResult> => {
+    // Get expected count
+    const expectedPop = testCase.expectedResults.populations.find(
+      p => p.code === 'initial-population'
+    );
+    const expectedCount = expectedPop?.count ?? 0;
+    const startTime = Date.now();
+
+    try {
+      // Create patient source from bundle
+      const patientSource = PatientSource.FHIRv401();
+
+      // Convert entries to array of resources
+      const resources = testCase.patientBundle.entry?.map(e => e.resource).filter(Boolean) || [];
+
+      // Wrap in a bundle for loading
+      const bundleForLoading = {
+        resourceType: 'Bundle',
+        type: 'collection',
+        entry: resources.map(r => ({ resource: r }))
+      };
+
+      patientSource.loadBundles([bundleForLoading]);
+      const patient = patientSource.currentPatient();
+
+      // Parse measurement period dates into CQL DateTime objects
+      const { start, end } = testCase.expectedResults.measurementPeriod;
+      const parameters = { 'Measurement Period': createMeasurementPeriod(start, end) };
+
+      // Create executor with Measurement Period parameter
+      const executor = new Executor(mainLibrary, codeService, parameters);
+
+      // Execute, recording the logic exercised with --coverage
+      const coverage: CoverageData = { evaluated: [], satisfied: [] };
+      const record = <T>(run: () => Promise<T>): Promise<T> =>
+        options.coverage ? recordCoverage(coverage, run) : run();
+      const execResults = await record(() => executor.exec(patientSource));
+
+      // Get Initial Population result
+      const patientId = getPatientIdFromBundle(testCase.patientBundle) || testCase.id;
+      const patientResults = execResults.patientResults?.[patientId] || {};
+
+      // Count Initial Population (first group's criteria expression)
+      const ipExpression = getPopulationExpression(measureGroups[0], 'initial-population');
+      const actualCount = ipExpression
+        ? countPopulation(patientResults[ipExpression], measureGroups[0]?.populationBasis)
+        : 0;
+
+      // Evaluate the Measure's observation functions and calculate group results
+      const evaluate = patient
+        ? createFunctionEvaluator(mainLibrary, patient, codeService, parameters)
+        : null;
+      const measureResults = await record(() => evaluateMeasureGroups(measureGroups, patientResults, evaluate));
+
+      // Per-test observation summary: observation values keyed by group id
+      const observations = Object.fromEntries(
+        Object.entries(measureResults.observations).map(([groupId, obs]) => [groupId, obs.observations])
+      );
+
+      // Compare with the expected groups
+      const groupComparisons = compareGroups(
+        testCase.expectedResults.groups,
+        measureResults.groups,
+        options.scoreOptions
+      );
+
+      // Collect supplemental data and verify it where the MeasureReport has SDE data
+      const supplementalData = collectSupplementalData(
+        pkg.measureMetadata?.supplementalData ?? [],
+        patientResults,
+        testCase.expectedResults.supplementalData
+      );
+
+      const passed = actualCount === expectedCount &&
+        groupComparisons.every(g => g.passed) &&
+        supplementalData.every(sde => sde.passed !== false);
+
+      const result: TestCaseResult = {
+        passed,
+        actualCount,
+        expectedCount,
+        patientId,
+        groupComparisons,
+        observations,
+        supplementalData,
+        measureResults,
+        evaluatedResources: getEvaluatedResourceReferences(execResults.patientEvaluatedRecords?.[patientId] ?? []),
+        durationMs: Date.now() - startTime
+      };
+
+      // Expression results hold engine objects; keep their JSON form only
+      if (options.includeExpressions) {
+        result.expressions = JSON.parse(JSON.stringify(patientResults));
+      }
+
+      if (options.coverage) {
+        result.coverage = coverage;
+      }
+
+      if (options.trace && patient) {
+        result.trace = await traceExpression(mainLibrary, patient, options.trace, codeService, parameters);
+      }
+
+      return result;
+    } catch (error) {
+      return {
+        passed: false,
+        actualCount: 0,
+        expectedCount,
+        error: (error as Error).message,
+        durationMs: Date.now() - startTime
+      };
+    }
+  };
+}
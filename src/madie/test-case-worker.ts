@@ -0,0 +1,23 @@
+/**
+ * Test Case Worker
+ *
+ * Worker thread entry point for parallel test runs. Loads the package ELM
+ * and ValueSets once, then runs each test case posted by the main thread.
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import { loadMADiEPackage } from './package-loader.js';
+import { loadValueSetsForMadie } from './valueset-loader.js';
+import { createTestCaseRunner } from './test-case-runner.js';
+import { TestCaseWorkerData, TestCaseRequest, TestCaseResponse } from './worker-pool.js';
+
+const { packageDir, mainLibraryName, valuesetsDir, runnerOptions } = workerData as TestCaseWorkerData;
+
+const pkg = loadMADiEPackage(packageDir, mainLibraryName);
+const codeService = loadValueSetsForMadie(valuesetsDir);
+const runTestCase = createTestCaseRunner(pkg, codeService, runnerOptions);
+
+parentPort!.on('message', async ({ index, testCase }: TestCaseRequest) => {
+  const result = await runTestCase(testCase);
+  parentPort!.postMessage({ index, result } satisfies TestCaseResponse);
+});
@@ -0,0 +1,116 @@
+/**
+ * Test Case Selection
+ *
+ * Selects the test cases of a madie run. Selectors combine: a test case is
+ * run when it matches every given selector and no --exclude pattern.
+ *
+ *   --test <uuid|name>      UUID, or substring of the test case name
+ *   --grep <regex>          Name, file name or description matches
+ *   --group <id>            The group has non-zero expected populations
+ *   --only-failed <file>    Failed in a previous run (madie --output file)
+ *   --exclude <uuid|name>   UUID, or substring of the test case name
+ */
+
+import { loadRun } from '../compare/run-comparison.js';
+import { TestCase } from './test-bundle-processor.js';
+
+/**
+ * Selectors for a madie run
+ */
+export interface TestSelection {
+  test?: string;
+  grep?: RegExp;
+  groups: string[];
+  onlyFailed?: Set<string>;  // Test case ids that failed in the previous run
+  exclude: string[];
+}
+
+/**
+ * Selected test cases and the ones left out
+ */
+export interface SelectionResult {
+  selected: TestCase[];
+  skipped: TestCase[];
+}
+
+/**
+ * Build the selection from command options, loading the previous run for --only-failed
+ *
+ * @throws Error if the --grep pattern is invalid or the previous run cannot be loaded
+ */
+export function createTestSelection(options: {
+  test?: string;
+  grep?: string;
+  group?: string[];
+  onlyFailed?: string;
+  exclude?: string[];
+}): TestSelection {
+  let grep: RegExp | undefined;
+  if (options.grep) {
+    try {
+      grep = new RegExp(options.grep, 'i');
+    } catch (error) {
+      throw new Error(`Invalid --grep pattern: ${(error as Error).message}`);
+    }
+  }
+
+  return {
+    test: options.test,
+    grep,
+    groups: options.group ?? [],
+    onlyFailed: options.onlyFailed
+      ? new Set(loadRun(options.onlyFailed).results.filter(r => !r.passed).map(r => r.id))
+      : undefined,
+    exclude: options.exclude ?? []
+  };
+}
+
+/**
+ * Check whether any selector is given
+ */
+export function hasSelectors(selection: TestSelection): boolean {
+  return Boolean(selection.test || selection.grep || selection.onlyFailed)
+    || selection.groups.length > 0
+    || selection.exclude.length > 0;
+}
+
+function matchesIdOrName(testCase: TestCase, pattern: string): boolean {
+  return testCase.id === pattern || testCase.name.toLowerCase().includes(pattern.toLowerCase());
+}
+
+/**
+ * Check whether a group has any non-zero expected population for the test case
+ */
+function hasGroupPopulations(testCase: TestCase, groupId: string): boolean {
+  const group = testCase.expectedResults.groups.find(g => g.groupId.toLowerCase() === groupId.toLowerCase());
+  if (!group) return false;
+  return Object.entries(group.populations)
+    .some(([key, value]) => key !== 'observations' && (value as number) > 0)
+    || Object.keys(group.populations.observations).length > 0;
+}
+
+/**
+ * Check whether a test case matches every selector
+ */
+export function matchesSelection(testCase: TestCase, selection: TestSelection): boolean {
+  if (selection.test && !matchesIdOrName(testCase, selection.test)) return false;
+  if (selection.grep) {
+    const text = [testCase.name, testCase.fileName, testCase.expectedResults.description ?? ''];
+    if (!text.some(t => selection.grep!.test(t))) return false;
+  }
+  if (selection.groups.length > 0 && !selection.groups.some(g => hasGroupPopulations(testCase, g))) return false;
+  if (selection.onlyFailed && !selection.onlyFailed.has(testCase.id)) return false;
+  return !selection.exclude.some(pattern => matchesIdOrName(testCase, pattern));
+}
+
+/**
+ * Select the test cases to run
+ */
+export function selectTestCases(testCases: TestCase[], selection: TestSelection): SelectionResult {
+  const result: SelectionResult = { selected: [], skipped: [] };
+  for (const testCase of testCases) {
+    (matchesSelection(testCase, selection) ? result.selected : result.skipped).push(testCase);
+  }
+  return result;
+}
+
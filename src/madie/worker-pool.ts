@@ -0,0 +1,150 @@
+/**
+ * Worker Pool
+ *
+ * Distributes test cases across worker threads (madie --jobs). Each worker
+ * takes the next test case as soon as it finishes one, and results are
+ * delivered in test case order so output matches a serial run.
+ */
+
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { fileURLToPath } from 'url';
+import { TestCase } from './test-bundle-processor.js';
+import { TestCaseResult, TestCaseRunnerOptions } from './test-case-runner.js';
+
+/**
+ * Data each worker needs to load the package
+ */
+export interface TestCaseWorkerData {
+  packageDir: string;
+  mainLibraryName: string;
+  valuesetsDir: string;
+  runnerOptions: TestCaseRunnerOptions;
+}
+
+/**
+ * Message from the main thread: run one test case
+ */
+export interface TestCaseRequest {
+  index: number;
+  testCase: TestCase;
+}
+
+/**
+ * Message from a worker: result of one test case
+ */
+export interface TestCaseResponse {
+  index: number;
+  result: TestCaseResult;
+}
+
+/**
+ * Start a test case worker. When running from TypeScript sources (tsx),
+ * the worker registers the tsx loader before importing the entry point.
+ *
+ * Worker console output is discarded: loading warnings repeat what the
+ * main thread has already reported, and results are printed by the caller.
+ */
+function startWorker(workerData: TestCaseWorkerData): Worker {
+  const extension = path.extname(fileURLToPath(import.meta.url));
+  const entry = new URL(`./test-case-worker${extension}`, import.meta.url);
+  const options = { workerData, stdout: true, stderr: true };
+
+  let worker: Worker;
+  if (extension === '.ts') {
+    const tsxApi = import.meta.resolve('tsx/esm/api');
+    const bootstrap = `import(${JSON.stringify(tsxApi)})` +
+      `.then(({ register }) => { register(); return import(${JSON.stringify(entry.href)}); });`;
+    worker = new Worker(bootstrap, { ...options, eval: true });
+  } else {
+    worker = new Worker(entry, options);
+  }
+
+  worker.stdout.resume();
+  worker.stderr.resume();
+  return worker;
+}
+
+/**
+ * Run test cases on a pool of worker threads.
+ *
+ * @param testCases - Test cases to run
+ * @param jobs - Number of worker threads
+ * @param workerData - Package, ValueSets and runner options for each worker
+ * @param onResult - Called once per test case, in test case order
+ */
+export function runTestCasesInWorkers(
+  testCases: TestCase[],
+  jobs: number,
+  workerData: TestCaseWorkerData,
+  onResult: (index: number, result: TestCaseResult) => void
+): Promise<void> {
+  const workers: Worker[] = [];
+  const stopped = new Set<Worker>();
+  const pending = new Map<number, TestCaseResult>();
+  let nextToSend = 0;
+  let nextToReport = 0;
+
+  return new Promise<void>((resolve, reject) => {
+    if (testCases.length === 0) {
+      resolve();
+      return;
+    }
+
+    const stop = (worker: Worker) => {
+      stopped.add(worker);
+      void worker.terminate();
+    };
+    const stopAll = () => workers.forEach(stop);
+
+    const dispatch = (worker: Worker) => {
+      if (nextToSend < testCases.length) {
+        const index = nextToSend++;
+        worker.postMessage({ index, testCase: testCases[index] } satisfies TestCaseRequest);
+      } else {
+        stop(worker);
+      }
+    };
+
+    for (let i = 0; i < Math.min(jobs, testCases.length); i++) {
+      const worker = startWorker(workerData);
+      workers.push(worker);
+
+      worker.on('message', ({ index, result }: TestCaseResponse) => {
+        pending.set(index, result);
+        try {
+          while (pending.has(nextToReport)) {
+            onResult(nextToReport, pending.get(nextToReport)!);
+            pending.delete(nextToReport);
+            nextToReport++;
+          }
+        } catch (error) {
+          stopAll();
+          reject(error);
+          return;
+        }
+
+        if (nextToReport === testCases.length) {
+          stopAll();
+          resolve();
+        } else {
+          dispatch(worker);
+        }
+      });
+
+      worker.on('error', error => {
+        stopAll();
+        reject(new Error(`Test worker failed: ${error.message}`));
+      });
+
+      worker.on('exit', code => {
+        if (!stopped.has(worker)) {
+          stopAll();
+          reject(new Error(`Test worker exited unexpectedly with code ${code}`));
+        }
+      });
+
+      dispatch(worker);
+    }
+  });
+}
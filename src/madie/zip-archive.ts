@@ -0,0 +1,129 @@
+/**
+ * Zip Archive Reader
+ *
+ * Minimal reader for the zip downloads MADiE delivers (measure package and
+ * test cases). Entries are located through the central directory and
+ * inflated with zlib, so no native unzip tool or extra dependency is needed.
+ * Stored and deflated entries are supported; ZIP64 and encrypted archives
+ * are not.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { inflateRawSync } from 'zlib';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const MAX_COMMENT_LENGTH = 0xffff;
+
+/**
+ * A file or directory in a zip archive
+ */
+export interface ZipEntry {
+  name: string;            // Path inside the archive, '/'-separated, no trailing slash
+  isDirectory: boolean;
+  method: number;          // 0 = stored, 8 = deflated
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * An opened zip archive
+ */
+export interface ZipArchive {
+  filePath: string;
+  entries: Map<string, ZipEntry>;
+  read(name: string): Buffer;
+}
+
+/**
+ * Check whether a path names a zip archive
+ */
+export function isZipPath(filePath: string): boolean {
+  return path.extname(filePath).toLowerCase() === '.zip';
+}
+
+function findEndOfCentralDirectory(data: Buffer): number {
+  const start = Math.max(0, data.length - 22 - MAX_COMMENT_LENGTH);
+  for (let offset = data.length - 22; offset >= start; offset--) {
+    if (data.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Open a zip archive and read its central directory
+ *
+ * @param filePath - Path to the .zip file
+ * @throws Error if the file is not a zip archive or uses unsupported features
+ */
+export function openZipArchive(filePath: string): ZipArchive {
+  const absolutePath = path.resolve(filePath);
+  const data = fs.readFileSync(absolutePath);
+
+  const end = findEndOfCentralDirectory(data);
+  if (end < 0) {
+    throw new Error(`Not a zip archive: ${absolutePath}`);
+  }
+
+  const entryCount = data.readUInt16LE(end + 10);
+  const directoryOffset = data.readUInt32LE(end + 16);
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new Error(`ZIP64 archives are not supported: ${absolutePath}`);
+  }
+
+  const entries = new Map<string, ZipEntry>();
+  let offset = directoryOffset;
+  for (let i = 0; i < entryCount; i++) {
+    if (data.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error(`Corrupt zip central directory in ${absolutePath}`);
+    }
+    const flags = data.readUInt16LE(offset + 8);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const rawName = data.toString('utf-8', offset + 46, offset + 46 + nameLength).replace(/\\/g, '/');
+
+    if (flags & 0x1) {
+      throw new Error(`Encrypted zip entries are not supported: ${rawName} in ${absolutePath}`);
+    }
+
+    const name = rawName.replace(/\/+$/, '');
+    entries.set(name, {
+      name,
+      isDirectory: rawName.endsWith('/'),
+      method: data.readUInt16LE(offset + 10),
+      compressedSize: data.readUInt32LE(offset + 20),
+      size: data.readUInt32LE(offset + 24),
+      localHeaderOffset: data.readUInt32LE(offset + 42)
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return {
+    filePath: absolutePath,
+    entries,
+
+    read(name: string): Buffer {
+      const entry = entries.get(name);
+      if (!entry || entry.isDirectory) {
+        throw new Error(`File not found in ${absolutePath}: ${name}`);
+      }
+      const header = entry.localHeaderOffset;
+      if (data.readUInt32LE(header) !== LOCAL_FILE_HEADER) {
+        throw new Error(`Corrupt zip entry ${name} in ${absolutePath}`);
+      }
+      const start = header + 30 + data.readUInt16LE(header + 26) + data.readUInt16LE(header + 28);
+      const compressed = data.subarray(start, start + entry.compressedSize);
+
+      if (entry.method === 0) return Buffer.from(compressed);
+      if (entry.method === 8) return inflateRawSync(compressed);
+      throw new Error(`Unsupported compression method ${entry.method} for ${name} in ${absolutePath}`);
+    }
+  };
+}
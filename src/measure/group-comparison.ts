@@ -0,0 +1,240 @@
+/**
+ * Group Comparison
+ *
+ * Compares expected group results (from the test case MeasureReport)
+ * against actual group results calculated from CQL execution.
+ */
+
+import {
+  ExpectedGroup,
+  ObservationValues,
+  PopulationCounts,
+  PopulationCountKey,
+  StratifierResults,
+  POPULATION_COUNT_KEYS,
+} from '../madie/test-bundle-processor.js';
+import { ActualGroup } from './population-calculator.js';
+
+/**
+ * Stratum comparison result
+ */
+export interface StratumComparison {
+  stratifierId: string;
+  value: string;
+  expected: Record<PopulationCountKey, number>;
+  actual: Record<PopulationCountKey, number>;
+  expectedScore: number | null;
+  actualScore: number | null;
+  passed: boolean;
+  mismatches: GroupMismatch[];
+}
+
+/**
+ * Parts of a group (or stratum) result that can mismatch
+ */
+export type GroupMismatch = 'counts' | 'observations' | 'score' | 'strata';
+
+/**
+ * How measure scores are compared.
+ * Scores match when they differ by no more than the absolute tolerance,
+ * or by no more than the relative tolerance times the expected score.
+ */
+export interface ScoreComparisonOptions {
+  absoluteTolerance?: number;
+  relativeTolerance?: number;
+  precision?: number;  // Decimal places both scores are rounded to before comparing
+}
+
+/**
+ * Absolute tolerance used when none is configured, to absorb floating point error
+ */
+export const DEFAULT_SCORE_TOLERANCE = 1e-9;
+
+/**
+ * Group comparison result
+ */
+export interface GroupComparison {
+  groupId: string;
+  expected: PopulationCounts;
+  actual: PopulationCounts;
+  expectedScore: number | null;
+  actualScore: number;
+  passed: boolean;
+  mismatches: GroupMismatch[];
+  strata: StratumComparison[];
+  basisMismatches: string[];
+}
+
+/**
+ * Short labels for population counts, in report order
+ */
+export const POPULATION_LABELS: Record<PopulationCountKey, string> = {
+  initialPopulation: 'IP',
+  denominator: 'DENOM',
+  denominatorExclusion: 'DENEX',
+  denominatorException: 'DENEXCEP',
+  numerator: 'NUMER',
+  numeratorExclusion: 'NUMEX',
+  measurePopulation: 'MP',
+  measurePopulationExclusion: 'MPE'
+};
+
+function countsMatch(expected: Record<PopulationCountKey, number>, actual: Record<PopulationCountKey, number>): boolean {
+  return Object.values(POPULATION_COUNT_KEYS).every(key => expected[key] === actual[key]);
+}
+
+function zeroCounts(): Record<PopulationCountKey, number> {
+  return Object.fromEntries(
+    Object.values(POPULATION_COUNT_KEYS).map(key => [key, 0])
+  ) as Record<PopulationCountKey, number>;
+}
+
+/**
+ * Compare an expected and actual measure score.
+ * An expected score of null (not in the MeasureReport) always matches.
+ */
+export function scoresMatch(
+  expected: number | null,
+  actual: number | null,
+  options: ScoreComparisonOptions = {}
+): boolean {
+  if (expected === null) {
+    return true;
+  }
+  if (actual === null) {
+    return false;
+  }
+
+  const round = (value: number) =>
+    options.precision === undefined ? value : Number(value.toFixed(options.precision));
+  const exp = round(expected);
+  const difference = Math.abs(exp - round(actual));
+
+  if (difference <= (options.absoluteTolerance ?? DEFAULT_SCORE_TOLERANCE)) {
+    return true;
+  }
+  return options.relativeTolerance !== undefined && difference <= Math.abs(exp) * options.relativeTolerance;
+}
+
+/**
+ * Compare observation values as multisets: every expected value must be
+ * matched by an actual value, regardless of member order or key.
+ */
+export function observationsMatch(expected: ObservationValues, actual: ObservationValues): boolean {
+  const expValues = Object.values(expected).sort((a, b) => a - b);
+  const actValues = Object.values(actual).sort((a, b) => a - b);
+  return expValues.length === actValues.length &&
+    expValues.every((v, i) => v === actValues[i]);
+}
+
+/**
+ * Compare expected and actual strata.
+ * Only stratifiers present in the expected MeasureReport are compared.
+ * Stratifiers are matched by id, falling back to position; strata by value.
+ * A stratum missing on one side is compared against zero counts.
+ */
+export function compareStrata(
+  expected: StratifierResults[],
+  actual: StratifierResults[],
+  options: ScoreComparisonOptions = {}
+): StratumComparison[] {
+  const comparisons: StratumComparison[] = [];
+
+  expected.forEach((exp, i) => {
+    const act = actual.find(a => a.stratifierId === exp.stratifierId) || actual[i];
+    const stratifierId = act?.stratifierId ?? exp.stratifierId;
+
+    const values = new Set([
+      ...exp.strata.map(s => s.value),
+      ...(act?.strata ?? []).map(s => s.value)
+    ]);
+
+    for (const value of values) {
+      const expStratum = exp.strata.find(s => s.value === value);
+      const actStratum = act?.strata.find(s => s.value === value);
+      const expectedCounts = expStratum?.populations ?? zeroCounts();
+      const actualCounts = actStratum?.populations ?? zeroCounts();
+      const expectedScore = expStratum?.measureScore ?? null;
+      const actualScore = actStratum?.measureScore ?? null;
+
+      const mismatches: GroupMismatch[] = [];
+      if (!countsMatch(expectedCounts, actualCounts)) mismatches.push('counts');
+      // A stratum missing on the actual side already fails on counts
+      if (actStratum && !scoresMatch(expectedScore, actualScore, options)) mismatches.push('score');
+
+      comparisons.push({
+        stratifierId,
+        value,
+        expected: expectedCounts,
+        actual: actualCounts,
+        expectedScore,
+        actualScore,
+        passed: mismatches.length === 0,
+        mismatches
+      });
+    }
+  });
+
+  return comparisons;
+}
+
+/**
+ * Compare expected and actual groups.
+ * Groups are matched by id; groups missing on either side are skipped.
+ *
+ * @param expected - Expected groups from the MeasureReport
+ * @param actual - Actual groups from the population calculator
+ * @param options - Measure score tolerance and precision
+ * @returns Comparison for each matched group, in expected order
+ */
+export function compareGroups(
+  expected: ExpectedGroup[],
+  actual: ActualGroup[],
+  options: ScoreComparisonOptions = {}
+): GroupComparison[] {
+  const comparisons: GroupComparison[] = [];
+  const actualById = new Map(actual.map(a => [a.groupId, a]));
+
+  for (const exp of expected) {
+    const act = actualById.get(exp.groupId);
+
+    if (!act) continue;
+
+    const mismatches: GroupMismatch[] = [];
+
+    // Compare population counts
+    if (!countsMatch(exp.populations, act.populations)) {
+      mismatches.push('counts');
+    }
+
+    // Compare observation values (member order doesn't matter)
+    if (!observationsMatch(exp.populations.observations, act.populations.observations)) {
+      mismatches.push('observations');
+    }
+
+    if (!scoresMatch(exp.measureScore, act.measureScore, options)) {
+      mismatches.push('score');
+    }
+
+    const strata = compareStrata(exp.stratifiers, act.stratifiers, options);
+    if (strata.some(st => !st.passed)) {
+      mismatches.push('strata');
+    }
+
+    const passed = mismatches.length === 0;
+
+    comparisons.push({
+      groupId: exp.groupId,
+      expected: exp.populations,
+      actual: act.populations,
+      expectedScore: exp.measureScore,
+      actualScore: act.measureScore,
+      passed,
+      mismatches,
+      strata,
+      basisMismatches: act.basisMismatches
+    });
+  }
+
+  return comparisons;
+}
@@ -0,0 +1,374 @@
+/**
+ * MeasureReport Builder
+ *
+ * Builds FHIR R4 MeasureReport resources from actual CQL results, so the
+ * runner's output can be consumed by downstream tooling and re-imported
+ * into MADiE.
+ */
+
+import { MeasureMetadata, MeasureGroup } from '../madie/package-loader.js';
+import {
+  POPULATION_COUNT_KEYS,
+  PopulationCountKey,
+  StratifierResults,
+  StratumComponent,
+  StratumResults,
+} from '../madie/test-bundle-processor.js';
+import { ActualGroup, GroupObservations, calculateMeasureScore } from './population-calculator.js';
+import { aggregateObservations, calculateObservationScore, getAggregateMethod } from './observation-evaluator.js';
+import { getMemberKey } from './population-members.js';
+
+/**
+ * Code system for MeasureReport population codes
+ */
+const MEASURE_POPULATION_SYSTEM = 'http://terminology.hl7.org/CodeSystem/measure-population';
+
+/**
+ * MeasureReport resource (subset of fields we produce)
+ */
+export interface MeasureReport {
+  resourceType: 'MeasureReport';
+  id?: string;
+  status: 'complete';
+  type: 'individual' | 'summary';
+  measure: string;
+  subject?: { reference: string };
+  date: string;
+  period: { start: string; end: string };
+  group: Array<Record<string, unknown>>;
+  evaluatedResource?: Array<{ reference: string }>;
+}
+
+/**
+ * Options for building an individual MeasureReport
+ */
+export interface IndividualReportOptions {
+  id?: string;
+  patientId: string;
+  period: { start: string; end: string };
+  groups: ActualGroup[];
+  observations: Record<string, GroupObservations>;
+  evaluatedResources?: string[];  // References such as "Encounter/123"
+}
+
+/**
+ * Actual results for one patient, as used for individual reports
+ */
+export interface PatientMeasureResults {
+  groups: ActualGroup[];
+  observations: Record<string, GroupObservations>;
+}
+
+/**
+ * Aggregate of one measure-observation population across patients
+ */
+export interface SummaryObservation {
+  populationId: string;
+  aggregateMethod: string;
+  count: number;             // Number of observations
+  aggregate: number;
+}
+
+/**
+ * Group results aggregated across patients
+ */
+export interface SummaryGroup {
+  groupId: string;
+  patientCount: number;
+  populations: Record<PopulationCountKey, number>;
+  observations: SummaryObservation[];
+  measureScore: number;
+  stratifiers: StratifierResults[];
+}
+
+/**
+ * Get references for the records retrieved while evaluating a patient
+ * (cql-execution's patientEvaluatedRecords), without duplicates.
+ */
+export function getEvaluatedResourceReferences(records: unknown[]): string[] {
+  const references = new Set<string>();
+  for (const record of records) {
+    const key = getMemberKey(record);
+    if (key.includes('/') && !key.startsWith('{')) {
+      references.add(key);
+    }
+  }
+  return [...references];
+}
+
+/**
+ * Get the canonical reference for the Measure
+ */
+export function getMeasureReference(metadata: MeasureMetadata): string {
+  return metadata.url
+    ? `${metadata.url}|${metadata.version}`
+    : `Measure/${metadata.name}`;
+}
+
+function populationCode(code: string) {
+  return { coding: [{ system: MEASURE_POPULATION_SYSTEM, code }] };
+}
+
+/**
+ * The value of a MeasureReport stratum: its components for component stratifiers
+ */
+function stratumValue(stratum: StratumResults): Record<string, unknown> {
+  return stratum.components
+    ? { component: stratum.components.map(c => ({ code: { text: c.code }, value: { text: c.value } })) }
+    : { value: { text: stratum.value } };
+}
+
+/**
+ * Check whether a group's scoring produces a measure score
+ */
+function hasMeasureScore(group: MeasureGroup): boolean {
+  return group.scoring !== 'cohort';
+}
+
+/**
+ * Build a MeasureReport group from actual results.
+ * Observation values follow the MADiE export convention: one
+ * measure-observation population per observed member, with the
+ * observation value as its count (id MeasureObservation_{group}_{n}).
+ */
+function buildReportGroup(
+  definition: MeasureGroup,
+  actual: ActualGroup,
+  groupObs: GroupObservations | undefined
+): Record<string, unknown> {
+  const population: Array<Record<string, unknown>> = [];
+
+  for (const pop of definition.populations) {
+    const countKey = POPULATION_COUNT_KEYS[pop.code];
+    if (countKey) {
+      population.push({ id: pop.id, code: populationCode(pop.code), count: actual.populations[countKey] });
+    }
+  }
+
+  for (const [id, value] of Object.entries(groupObs?.observations ?? {})) {
+    population.push({ id, code: populationCode('measure-observation'), count: value });
+  }
+
+  const group: Record<string, unknown> = { id: actual.groupId, population };
+
+  if (hasMeasureScore(definition)) {
+    group.measureScore = { value: actual.measureScore };
+  }
+
+  if (actual.stratifiers.length > 0) {
+    group.stratifier = actual.stratifiers.map(stratifier => {
+      const stratifierDef = definition.stratifiers.find(s => s.id === stratifier.stratifierId);
+      return {
+        id: stratifier.stratifierId,
+        ...(stratifierDef?.code && { code: [{ text: stratifierDef.code }] }),
+        stratum: stratifier.strata.map(stratum => ({
+          ...stratumValue(stratum),
+          population: definition.populations
+            .filter(pop => POPULATION_COUNT_KEYS[pop.code])
+            .map(pop => ({
+              id: pop.id,
+              code: populationCode(pop.code),
+              count: stratum.populations[POPULATION_COUNT_KEYS[pop.code]]
+            })),
+          ...(hasMeasureScore(definition) && { measureScore: { value: stratum.measureScore } })
+        }))
+      };
+    });
+  }
+
+  return group;
+}
+
+/**
+ * Stratum results summed across patients
+ */
+interface StratumTotals {
+  components?: StratumComponent[];
+  populations: Record<PopulationCountKey, number>;
+  observations: Record<string, number[]>;   // Observation values by observation population id
+}
+
+function zeroCounts(): Record<PopulationCountKey, number> {
+  return Object.fromEntries(
+    Object.values(POPULATION_COUNT_KEYS).map(key => [key, 0])
+  ) as Record<PopulationCountKey, number>;
+}
+
+/**
+ * Aggregate individual results into measure-level group results.
+ *
+ * Population counts and stratum counts are summed. Observations are
+ * aggregated over every patient's observation values (not over the
+ * per-patient aggregates), and scores are recalculated from the totals.
+ *
+ * @param groups - Groups from the Measure resource
+ * @param patients - Actual results for each patient
+ * @returns Summary results for each group, in Measure order
+ */
+export function aggregateGroups(groups: MeasureGroup[], patients: PatientMeasureResults[]): SummaryGroup[] {
+  return groups.map(group => {
+    const totals = zeroCounts();
+
+    const observationValues = new Map<string, { aggregateMethod: string; values: number[] }>();
+    const strata = new Map<string, Map<string, StratumTotals>>();
+
+    for (const patient of patients) {
+      const actual = patient.groups.find(g => g.groupId === group.id);
+      if (!actual) continue;
+
+      for (const key of Object.keys(totals) as PopulationCountKey[]) {
+        totals[key] += actual.populations[key];
+      }
+
+      for (const result of patient.observations[group.id]?.results ?? []) {
+        const entry = observationValues.get(result.populationId)
+          ?? { aggregateMethod: result.aggregateMethod, values: [] };
+        entry.values.push(...result.values);
+        observationValues.set(result.populationId, entry);
+      }
+
+      for (const stratifier of actual.stratifiers) {
+        const byValue = strata.get(stratifier.stratifierId) ?? new Map();
+        strata.set(stratifier.stratifierId, byValue);
+        for (const stratum of stratifier.strata) {
+          const entry = byValue.get(stratum.value)
+            ?? { components: stratum.components, populations: zeroCounts(), observations: {} };
+          for (const key of Object.keys(entry.populations) as PopulationCountKey[]) {
+            entry.populations[key] += stratum.populations[key];
+          }
+          for (const [populationId, values] of Object.entries(stratum.observations ?? {})) {
+            entry.observations[populationId] = [...(entry.observations[populationId] ?? []), ...values];
+          }
+          byValue.set(stratum.value, entry);
+        }
+      }
+    }
+
+    const observations: SummaryObservation[] = [...observationValues].map(([populationId, entry]) => ({
+      populationId,
+      aggregateMethod: entry.aggregateMethod,
+      count: entry.values.length,
+      aggregate: aggregateObservations(entry.values, entry.aggregateMethod)
+    }));
+
+    return {
+      groupId: group.id,
+      patientCount: patients.length,
+      populations: totals,
+      observations,
+      measureScore: calculateMeasureScore(group, totals, calculateObservationScore(group, observations)),
+      stratifiers: group.stratifiers.map(stratifier => ({
+        stratifierId: stratifier.id,
+        strata: [...(strata.get(stratifier.id) ?? new Map<string, StratumTotals>())].map(([value, entry]) => ({
+          value,
+          ...(entry.components && { components: entry.components }),
+          populations: entry.populations,
+          measureScore: calculateMeasureScore(
+            group,
+            entry.populations,
+            calculateObservationScore(group, Object.entries(entry.observations).map(([populationId, values]) => ({
+              populationId,
+              aggregate: aggregateObservations(values, getAggregateMethod(group, populationId))
+            })))
+          )
+        }))
+      }))
+    };
+  });
+}
+
+/**
+ * Build a summary MeasureReport from aggregated group results.
+ *
+ * @param metadata - Measure metadata (groups, url, version)
+ * @param period - Measurement period of the report
+ * @param summary - Aggregated results from aggregateGroups
+ * @returns MeasureReport of type "summary"
+ */
+export function buildSummaryMeasureReport(
+  metadata: MeasureMetadata,
+  period: { start: string; end: string },
+  summary: SummaryGroup[]
+): MeasureReport {
+  const group = summary.map(result => {
+    const definition = metadata.groups.find(g => g.id === result.groupId)!;
+    const populations = (pops: Record<PopulationCountKey, number>) => definition.populations
+      .filter(pop => POPULATION_COUNT_KEYS[pop.code])
+      .map(pop => ({ id: pop.id, code: populationCode(pop.code), count: pops[POPULATION_COUNT_KEYS[pop.code]] }));
+
+    // Observations report the number of observations made; the aggregate is the score
+    const population: Array<Record<string, unknown>> = [
+      ...populations(result.populations),
+      ...result.observations.map(obs => ({
+        id: obs.populationId,
+        code: populationCode('measure-observation'),
+        count: obs.count
+      }))
+    ];
+
+    return {
+      id: result.groupId,
+      population,
+      ...(hasMeasureScore(definition) && { measureScore: { value: result.measureScore } }),
+      ...(result.stratifiers.length > 0 && {
+        stratifier: result.stratifiers.map(stratifier => {
+          const stratifierDef = definition.stratifiers.find(s => s.id === stratifier.stratifierId);
+          return {
+            id: stratifier.stratifierId,
+            ...(stratifierDef?.code && { code: [{ text: stratifierDef.code }] }),
+            stratum: stratifier.strata.map(stratum => ({
+              ...stratumValue(stratum),
+              population: populations(stratum.populations),
+              ...(hasMeasureScore(definition) && { measureScore: { value: stratum.measureScore } })
+            }))
+          };
+        })
+      })
+    };
+  });
+
+  return {
+    resourceType: 'MeasureReport',
+    status: 'complete',
+    type: 'summary',
+    measure: getMeasureReference(metadata),
+    date: new Date().toISOString(),
+    period,
+    group
+  };
+}
+
+/**
+ * Build an individual MeasureReport for one patient.
+ *
+ * @param metadata - Measure metadata (groups, url, version)
+ * @param options - Actual results for the patient
+ * @returns MeasureReport of type "individual"
+ */
+export function buildIndividualMeasureReport(
+  metadata: MeasureMetadata,
+  options: IndividualReportOptions
+): MeasureReport {
+  const group = metadata.groups.map(definition => {
+    const actual = options.groups.find(g => g.groupId === definition.id);
+    return actual ? buildReportGroup(definition, actual, options.observations[definition.id]) : null;
+  }).filter((g): g is Record<string, unknown> => g !== null);
+
+  const report: MeasureReport = {
+    resourceType: 'MeasureReport',
+    ...(options.id && { id: options.id }),
+    status: 'complete',
+    type: 'individual',
+    measure: getMeasureReference(metadata),
+    subject: { reference: `Patient/${options.patientId}` },
+    date: new Date().toISOString(),
+    period: options.period,
+    group
+  };
+
+  if (options.evaluatedResources && options.evaluatedResources.length > 0) {
+    report.evaluatedResource = options.evaluatedResources.map(reference => ({ reference }));
+  }
+
+  return report;
+}
@@ -0,0 +1,247 @@
+/**
+ * Observation Evaluator
+ *
+ * Evaluates the measure-observation functions named by the Measure for each
+ * member of the observed population, using the CQL engine, and aggregates
+ * the results with the population's cqfm-aggregateMethod.
+ */
+
+import { MeasureGroup, MeasurePopulation } from '../madie/package-loader.js';
+import { FunctionEvaluator } from '../engine/cql-runner.js';
+import { POPULATION_COUNT_KEYS } from '../madie/test-bundle-processor.js';
+import { getMemberKey, PATIENT_BASIS } from './population-members.js';
+import { PopulationMemberSets } from './population-calculator.js';
+
+/**
+ * Aggregate method used when the Measure doesn't declare one
+ */
+export const DEFAULT_AGGREGATE_METHOD = 'sum';
+
+/**
+ * Result of evaluating one measure-observation population
+ */
+export interface ObservationResult {
+  populationId: string;
+  expression: string;       // Observation function name
+  aggregateMethod: string;
+  values: number[];         // One value per observed member, in population order
+  memberKeys: string[];     // Member key for each value
+  aggregate: number;
+}
+
+/**
+ * Aggregate observation values.
+ *
+ * @param values - Observation values
+ * @param method - Aggregate method: sum, average, median, min, max or count
+ * @returns Aggregated value (0 when there are no values)
+ */
+export function aggregateObservations(values: number[], method: string = DEFAULT_AGGREGATE_METHOD): number {
+  if (method === 'count') {
+    return values.length;
+  }
+  if (values.length === 0) {
+    return 0;
+  }
+
+  switch (method) {
+    case 'sum':
+      return values.reduce((a, b) => a + b, 0);
+    case 'average':
+      return values.reduce((a, b) => a + b, 0) / values.length;
+    case 'median': {
+      const sorted = [...values].sort((a, b) => a - b);
+      const mid = Math.floor(sorted.length / 2);
+      return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+    }
+    case 'min':
+      return Math.min(...values);
+    case 'max':
+      return Math.max(...values);
+    default:
+      throw new Error(`Unsupported aggregate method: ${method}`);
+  }
+}
+
+/**
+ * Convert an observation function result to a number.
+ * Quantities use their value; null and non-numeric results yield no observation.
+ */
+function toObservationValue(result: unknown): number | null {
+  if (typeof result === 'number') {
+    return result;
+  }
+  if (result && typeof result === 'object' && typeof (result as { value?: unknown }).value === 'number') {
+    return (result as { value: number }).value;
+  }
+  return null;
+}
+
+/**
+ * Exclusion population subtracted from each observed population
+ */
+const OBSERVED_POPULATION_EXCLUSIONS: Record<string, string> = {
+  'denominator': 'denominator-exclusion',
+  'numerator': 'numerator-exclusion',
+  'measure-population': 'measure-population-exclusion'
+};
+
+/**
+ * The population an observation observes: the one its criteria reference
+ * points at, else the Measure Population
+ */
+function getObservedPopulation(group: MeasureGroup, observation: MeasurePopulation): MeasurePopulation | undefined {
+  return group.populations.find(p =>
+    observation.criteriaReference ? p.id === observation.criteriaReference : p.code === 'measure-population'
+  );
+}
+
+function isObservation(population: MeasurePopulation): boolean {
+  return population.code === 'measure-observation' || population.code === 'measure-population-observation';
+}
+
+/**
+ * Get the aggregate of the observation population observing a population code
+ */
+function findObservedAggregate(
+  group: MeasureGroup,
+  aggregates: Array<{ populationId: string; aggregate: number }>,
+  code: string
+): number | undefined {
+  return aggregates.find(a => {
+    const observation = group.populations.find(p => p.id === a.populationId);
+    return observation && getObservedPopulation(group, observation)?.code === code;
+  })?.aggregate;
+}
+
+/**
+ * Check whether a group is a ratio group scored from observations of both
+ * its Numerator and its Denominator
+ */
+export function hasRatioObservations(group: MeasureGroup): boolean {
+  if (group.scoring !== 'ratio') {
+    return false;
+  }
+  const observed = group.populations.filter(isObservation).map(p => getObservedPopulation(group, p)?.code);
+  return observed.includes('numerator') && observed.includes('denominator');
+}
+
+/**
+ * Get the aggregate method of an observation population
+ */
+export function getAggregateMethod(group: MeasureGroup, populationId: string): string {
+  return group.populations.find(p => p.id === populationId)?.aggregateMethod || DEFAULT_AGGREGATE_METHOD;
+}
+
+/**
+ * Calculate the observation score of a group or stratum from the aggregate
+ * of each of its observation populations.
+ *
+ * Ratio groups observing both populations score the Numerator aggregate over
+ * the Denominator aggregate; other groups score the aggregate of their first
+ * observation population.
+ *
+ * @param group - The Measure group
+ * @param aggregates - Aggregate of each observation population, in Measure order
+ * @returns Observation score (0 when there are no observations or the Denominator aggregate is 0)
+ */
+export function calculateObservationScore(
+  group: MeasureGroup,
+  aggregates: Array<{ populationId: string; aggregate: number }>
+): number {
+  if (hasRatioObservations(group)) {
+    const numerator = findObservedAggregate(group, aggregates, 'numerator') ?? 0;
+    const denominator = findObservedAggregate(group, aggregates, 'denominator') ?? 0;
+    return denominator !== 0 ? numerator / denominator : 0;
+  }
+  return aggregates[0]?.aggregate ?? 0;
+}
+
+/**
+ * Get the argument lists to call an observation function with.
+ *
+ * The observed population is the one the observation's criteria reference
+ * points at (the Measure Population when it has none). Its members after
+ * population precedence, less the members of its own exclusion population,
+ * are observed. Resource-basis groups pass each member resource;
+ * patient-based groups call the function once with no arguments.
+ */
+function getObservationArguments(
+  group: MeasureGroup,
+  observation: MeasurePopulation,
+  expressions: Record<string, unknown>,
+  memberSets: PopulationMemberSets
+): Array<{ memberKey: string; args: unknown[] }> {
+  const observed = getObservedPopulation(group, observation);
+  const observedKey = observed && POPULATION_COUNT_KEYS[observed.code];
+  if (!observed || !observedKey) {
+    return [];
+  }
+
+  const exclusionCode = OBSERVED_POPULATION_EXCLUSIONS[observed.code];
+  const excluded = exclusionCode ? memberSets[POPULATION_COUNT_KEYS[exclusionCode]] : new Set<string>();
+  const members = new Set([...memberSets[observedKey]].filter(m => !excluded.has(m)));
+
+  if (group.populationBasis === PATIENT_BASIS) {
+    return [...members].map(memberKey => ({ memberKey, args: [] }));
+  }
+
+  // The member resources, in the order the observed population's define returned them
+  const value = expressions[observed.expression];
+  const items = Array.isArray(value) ? value : value === null || value === undefined ? [] : [value];
+  const seen = new Set<string>();
+  const calls: Array<{ memberKey: string; args: unknown[] }> = [];
+  for (const item of items) {
+    if (item === null || item === undefined) continue;
+    const memberKey = getMemberKey(item);
+    if (seen.has(memberKey) || !members.has(memberKey)) continue;
+    seen.add(memberKey);
+    calls.push({ memberKey, args: [item] });
+  }
+  return calls;
+}
+
+/**
+ * Evaluate every measure-observation population in a group.
+ *
+ * @param group - The Measure group
+ * @param expressions - Patient expression results from the Executor
+ * @param memberSets - The group's population members (see calculatePopulationMembers)
+ * @param evaluate - Function evaluator bound to the patient
+ * @returns One result per observation population, in Measure order
+ */
+export async function evaluateGroupObservations(
+  group: MeasureGroup,
+  expressions: Record<string, unknown>,
+  memberSets: PopulationMemberSets,
+  evaluate: FunctionEvaluator
+): Promise<ObservationResult[]> {
+  const results: ObservationResult[] = [];
+
+  const observations = group.populations.filter(isObservation);
+
+  for (const observation of observations) {
+    const aggregateMethod = observation.aggregateMethod || DEFAULT_AGGREGATE_METHOD;
+    const values: number[] = [];
+    const memberKeys: string[] = [];
+
+    for (const { memberKey, args } of getObservationArguments(group, observation, expressions, memberSets)) {
+      const value = toObservationValue(await evaluate(observation.expression, args));
+      if (value !== null) {
+        values.push(value);
+        memberKeys.push(memberKey);
+      }
+    }
+
+    results.push({
+      populationId: observation.id,
+      expression: observation.expression,
+      aggregateMethod,
+      values,
+      memberKeys,
+      aggregate: aggregateObservations(values, aggregateMethod)
+    });
+  }
+
+  return results;
+}
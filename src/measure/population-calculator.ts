@@ -0,0 +1,343 @@
+/**
+ * Population Calculator
+ *
+ * Derives actual group results from CQL expression results using the
+ * population criteria declared in the package's Measure resource, so that
+ * group comparisons work for any measure rather than a fixed set of defines.
+ */
+
+import { MeasureGroup } from '../madie/package-loader.js';
+import {
+  PopulationCounts,
+  PopulationCountKey,
+  ObservationValues,
+  StratifierResults,
+  StratumComponent,
+  componentStratumValue,
+  emptyPopulationCounts,
+  normalizeStratumValue,
+} from '../madie/test-bundle-processor.js';
+import { getPopulationMembers } from './population-members.js';
+import {
+  aggregateObservations,
+  calculateObservationScore,
+  hasRatioObservations,
+  ObservationResult,
+} from './observation-evaluator.js';
+
+/**
+ * Actual group results calculated from CQL execution
+ */
+export interface ActualGroup {
+  groupId: string;
+  populations: PopulationCounts;
+  measureScore: number;
+  stratifiers: StratifierResults[];
+  basisMismatches: string[];  // Populations whose result type doesn't match the population basis
+}
+
+/**
+ * Observation values and score calculated for a single group
+ */
+export interface GroupObservations {
+  observations: ObservationValues;
+  measureScore: number;
+  results: ObservationResult[];  // Per-member values, used for stratum scores
+}
+
+/**
+ * Default define names used when a population has no criteria expression
+ */
+export const DEFAULT_POPULATION_EXPRESSIONS: Record<string, string> = {
+  'initial-population': 'Initial Population',
+  'measure-population': 'Measure Population',
+  'measure-population-exclusion': 'Measure Population Exclusion'
+};
+
+/**
+ * Get the criteria expression for a population code within a group.
+ *
+ * @param group - The Measure group
+ * @param code - Population code (e.g. "initial-population")
+ * @returns Expression name, or the default define name for the code
+ */
+export function getPopulationExpression(group: MeasureGroup | undefined, code: string): string | undefined {
+  const population = group?.populations.find(p => p.code === code);
+  return population?.expression ?? DEFAULT_POPULATION_EXPRESSIONS[code];
+}
+
+function intersect(members: Set<string>, within: Set<string>): Set<string> {
+  return new Set([...members].filter(m => within.has(m)));
+}
+
+function subtract(members: Set<string>, ...excluded: Set<string>[]): Set<string> {
+  return new Set([...members].filter(m => !excluded.some(e => e.has(m))));
+}
+
+/**
+ * Members of every population in a group
+ */
+export type PopulationMemberSets = Record<PopulationCountKey, Set<string>>;
+
+/**
+ * Population members of a group and any basis mismatches found deriving them
+ */
+export interface GroupMembers {
+  memberSets: PopulationMemberSets;
+  basisMismatches: string[];
+}
+
+/**
+ * Calculate population members for a group, applying the standard
+ * population precedence:
+ * - Denominator and Measure Population are limited to the Initial Population
+ * - Denominator Exclusion and Measure Population Exclusion are limited to
+ *   their parent population
+ * - Numerator excludes Denominator Exclusion members (proportion scoring)
+ * - Numerator Exclusion is limited to the Numerator
+ * - Denominator Exception only applies to Denominator members that are
+ *   neither excluded nor in the Numerator
+ */
+export function calculatePopulationMembers(
+  group: MeasureGroup,
+  expressions: Record<string, unknown>
+): GroupMembers {
+  const basisMismatches: string[] = [];
+  const membersFor = (code: string): Set<string> | undefined => {
+    const expression = group.populations.find(p => p.code === code)?.expression;
+    if (!expression) {
+      return undefined;
+    }
+    const { members, mismatch } = getPopulationMembers(expressions[expression], group.populationBasis);
+    if (mismatch) {
+      basisMismatches.push(
+        `${code} "${expression}" returned ${mismatch} but the population basis is ${group.populationBasis}`
+      );
+    }
+    return members;
+  };
+  const empty = new Set<string>();
+
+  const ip = membersFor('initial-population') ?? empty;
+  const limit = (members: Set<string> | undefined, within: Set<string>) =>
+    members ? intersect(members, within) : empty;
+
+  const denom = limit(membersFor('denominator'), ip);
+  const denex = limit(membersFor('denominator-exclusion'), denom);
+  // Ratio numerators are drawn from the Initial Population rather than the Denominator
+  const numer = group.scoring === 'ratio'
+    ? limit(membersFor('numerator'), ip)
+    : subtract(limit(membersFor('numerator'), denom), denex);
+  const numex = limit(membersFor('numerator-exclusion'), numer);
+  const denexcep = subtract(limit(membersFor('denominator-exception'), denom), denex, numer);
+
+  const mp = limit(membersFor('measure-population'), ip);
+  const mpe = limit(membersFor('measure-population-exclusion'), mp);
+
+  return {
+    memberSets: {
+      initialPopulation: ip,
+      denominator: denom,
+      denominatorExclusion: denex,
+      denominatorException: denexcep,
+      numerator: numer,
+      numeratorExclusion: numex,
+      measurePopulation: mp,
+      measurePopulationExclusion: mpe
+    },
+    basisMismatches
+  };
+}
+
+/**
+ * Count population members, optionally limited to a stratum's members.
+ */
+function countMembers(memberSets: PopulationMemberSets, within?: Set<string>): Record<PopulationCountKey, number> {
+  const counts = {} as Record<PopulationCountKey, number>;
+  for (const [key, members] of Object.entries(memberSets) as Array<[PopulationCountKey, Set<string>]>) {
+    counts[key] = within ? intersect(members, within).size : members.size;
+  }
+  return counts;
+}
+
+/**
+ * Calculate a proportion score: (NUMER - NUMEX) / (DENOM - DENEX - DENEXCEP)
+ */
+export function calculateProportionScore(populations: Record<PopulationCountKey, number>): number {
+  const denominator = populations.denominator - populations.denominatorExclusion - populations.denominatorException;
+  const numerator = populations.numerator - populations.numeratorExclusion;
+  return denominator > 0 ? numerator / denominator : 0;
+}
+
+/**
+ * Calculate a ratio score: (NUMER - NUMEX) / (DENOM - DENEX)
+ */
+export function calculateRatioScore(populations: Record<PopulationCountKey, number>): number {
+  const denominator = populations.denominator - populations.denominatorExclusion;
+  const numerator = populations.numerator - populations.numeratorExclusion;
+  return denominator > 0 ? numerator / denominator : 0;
+}
+
+/**
+ * Calculate the measure score for a group or stratum from its populations.
+ * Continuous variable groups, and ratio groups observing their Numerator and
+ * Denominator, are scored from their observations (see calculateObservationScore).
+ */
+export function calculateMeasureScore(
+  group: MeasureGroup,
+  populations: Record<PopulationCountKey, number>,
+  observationScore: number
+): number {
+  const scoring = group.scoring === 'unknown' && group.populations.some(p => p.code === 'numerator')
+    ? 'proportion'
+    : group.scoring;
+
+  switch (scoring) {
+    case 'proportion':
+      return calculateProportionScore(populations);
+    case 'ratio':
+      return hasRatioObservations(group) ? observationScore : calculateRatioScore(populations);
+    default:
+      return observationScore;
+  }
+}
+
+/**
+ * Convert a stratifier expression result to a stratum value.
+ * Booleans give a "true" or "false" stratum; codes use their code, FHIR primitives
+ * their value. Null (or no result) places the patient in no stratum.
+ */
+function getStratumValue(value: unknown): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'true' : 'false';
+  }
+  if (typeof value !== 'object') {
+    return normalizeStratumValue(String(value));
+  }
+  const obj = value as Record<string, unknown>;
+  if (typeof obj.code === 'string') {
+    return normalizeStratumValue(obj.code);
+  }
+  if (Array.isArray(obj.codes) && obj.codes.length > 0) {
+    return getStratumValue(obj.codes[0]);
+  }
+  if (obj.value !== undefined && typeof obj.value !== 'object') {
+    return normalizeStratumValue(String(obj.value));
+  }
+  return normalizeStratumValue(JSON.stringify(value));
+}
+
+/**
+ * Get the stratum of one stratifier criteria result.
+ *
+ * A list (resource-basis groups) defines a "true" stratum limited to the
+ * listed members. Any other result places the whole patient in the stratum
+ * named by the value.
+ */
+function getStratum(group: MeasureGroup, result: unknown): { value: string | null; within?: Set<string> } {
+  if (Array.isArray(result)) {
+    const within = getPopulationMembers(result, group.populationBasis).members;
+    return { value: within.size > 0 ? 'true' : null, within };
+  }
+  return { value: getStratumValue(result) };
+}
+
+/**
+ * Calculate stratum results for each of a group's stratifiers.
+ *
+ * A component stratifier's stratum combines the values of its components,
+ * limited to the members in every list-valued component. Stratum
+ * observations are the observed members' values in the stratum, for every
+ * observation population.
+ */
+function calculateStratifiers(
+  group: MeasureGroup,
+  expressions: Record<string, unknown>,
+  memberSets: PopulationMemberSets,
+  groupObs: GroupObservations | undefined
+): StratifierResults[] {
+  return group.stratifiers.map(stratifier => {
+    let value: string | null;
+    let within: Set<string> | undefined;
+    let components: StratumComponent[] | undefined;
+
+    if (stratifier.expression) {
+      ({ value, within } = getStratum(group, expressions[stratifier.expression]));
+    } else {
+      const parts = stratifier.components.map(c => ({ code: c.code, ...getStratum(group, expressions[c.expression]) }));
+      for (const part of parts) {
+        if (part.within) within = within ? intersect(within, part.within) : part.within;
+      }
+      components = parts.every(part => part.value !== null)
+        ? parts.map(part => ({ code: part.code, value: part.value! }))
+        : undefined;
+      value = components && (!within || within.size > 0) ? componentStratumValue(components) : null;
+    }
+
+    if (value === null) {
+      return { stratifierId: stratifier.id, strata: [] };
+    }
+
+    const populations = countMembers(memberSets, within);
+    const results = groupObs?.results ?? [];
+    const observations = Object.fromEntries(results.map(result => [
+      result.populationId,
+      result.values.filter((_, i) => !within || within.has(result.memberKeys[i]))
+    ]));
+    const observationScore = calculateObservationScore(group, results.map(result => ({
+      populationId: result.populationId,
+      aggregate: aggregateObservations(observations[result.populationId], result.aggregateMethod)
+    })));
+
+    return {
+      stratifierId: stratifier.id,
+      strata: [{
+        value,
+        ...(components && { components }),
+        populations,
+        measureScore: calculateMeasureScore(group, populations, observationScore),
+        ...(groupObs && { observations })
+      }]
+    };
+  });
+}
+
+/**
+ * Calculate actual group results from CQL expression results.
+ *
+ * @param groups - Groups from the Measure resource
+ * @param expressions - Patient expression results from the Executor
+ * @param observations - Observation values keyed by group id (groups with observations only)
+ * @param members - Population members keyed by group id, when already calculated (see calculatePopulationMembers)
+ * @returns Actual results for each group, in Measure order
+ */
+export function calculateActualGroups(
+  groups: MeasureGroup[],
+  expressions: Record<string, unknown>,
+  observations: Record<string, GroupObservations> = {},
+  members: Record<string, GroupMembers> = {}
+): ActualGroup[] {
+  return groups.map(group => {
+    const { memberSets, basisMismatches } = members[group.id] ?? calculatePopulationMembers(group, expressions);
+    const groupObs = group.hasObservations ? observations[group.id] : undefined;
+
+    const populations: PopulationCounts = {
+      ...emptyPopulationCounts(),
+      ...countMembers(memberSets)
+    };
+    if (groupObs) {
+      populations.observations = groupObs.observations;
+    }
+
+    return {
+      groupId: group.id,
+      populations,
+      measureScore: calculateMeasureScore(group, populations, groupObs?.measureScore ?? 0),
+      stratifiers: calculateStratifiers(group, expressions, memberSets, groupObs),
+      basisMismatches
+    };
+  });
+}
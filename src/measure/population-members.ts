@@ -0,0 +1,138 @@
+/**
+ * Population Members
+ *
+ * Derives population membership from CQL expression results. Patient-based
+ * populations have a single patient member; resource-basis populations have
+ * one member per distinct resource, keyed by resource type and id.
+ */
+
+/**
+ * Population basis for patient-based groups
+ */
+export const PATIENT_BASIS = 'boolean';
+
+/**
+ * Key used for patient-level (boolean) population membership
+ */
+const PATIENT_MEMBER = '$patient';
+
+/**
+ * Population members derived from a single expression result
+ */
+export interface PopulationMembers {
+  members: Set<string>;
+  mismatch?: string;  // Description of the result type when it doesn't match the basis
+}
+
+/**
+ * Get the FHIR resource type of a result item, if it is a resource.
+ * Handles both cql-exec-fhir objects and plain FHIR JSON.
+ */
+export function getResourceType(item: unknown): string | undefined {
+  if (!item || typeof item !== 'object') {
+    return undefined;
+  }
+  const obj = item as Record<string, unknown> & { getTypeInfo?: () => { name?: string } | undefined };
+  if (typeof obj.getTypeInfo === 'function') {
+    const name = obj.getTypeInfo()?.name;
+    if (name) {
+      return name.replace(/^FHIR\./, '');
+    }
+  }
+  return typeof obj.resourceType === 'string' ? obj.resourceType : undefined;
+}
+
+/**
+ * Get a stable key for a population member.
+ * FHIR resources are keyed by type and id (string or {value: 'id'}), anything else by its JSON.
+ */
+export function getMemberKey(item: unknown): string {
+  if (item && typeof item === 'object') {
+    const obj = item as Record<string, unknown>;
+    let id: string | undefined;
+    if (typeof obj.id === 'string') {
+      id = obj.id;
+    } else if (obj.id && typeof obj.id === 'object') {
+      const idObj = obj.id as Record<string, unknown>;
+      if (idObj.value) {
+        id = String(idObj.value);
+      }
+    }
+    if (id) {
+      return `${getResourceType(item) ?? 'Resource'}/${id}`;
+    }
+  }
+  return JSON.stringify(item);
+}
+
+/**
+ * Describe the type of an expression result for basis mismatch messages.
+ */
+function describeResultType(value: unknown): string {
+  if (Array.isArray(value)) {
+    const types = new Set(value.map(v => getResourceType(v) ?? typeof v));
+    return `List<${[...types].join(' | ') || 'Any'}>`;
+  }
+  if (typeof value === 'boolean') {
+    return 'Boolean';
+  }
+  return getResourceType(value) ?? typeof value;
+}
+
+/**
+ * Get the members of a population from its expression result.
+ *
+ * Patient-based (boolean basis) populations have one member when the
+ * result is true. Resource-basis populations have one member per distinct
+ * resource in the result list. Results that don't match the basis are
+ * still counted on a best-effort basis and reported as a mismatch.
+ *
+ * @param value - The CQL expression result
+ * @param basis - Population basis ("boolean" or a resource type); inferred from the value if omitted
+ * @returns Member keys and any basis mismatch
+ */
+export function getPopulationMembers(value: unknown, basis?: string): PopulationMembers {
+  if (value === null || value === undefined) {
+    return { members: new Set() };
+  }
+
+  const isList = Array.isArray(value);
+
+  if (basis === PATIENT_BASIS || (basis === undefined && !isList)) {
+    if (typeof value === 'boolean') {
+      return { members: new Set(value ? [PATIENT_MEMBER] : []) };
+    }
+    const isMember = isList ? (value as unknown[]).length > 0 : true;
+    return {
+      members: new Set(isMember ? [PATIENT_MEMBER] : []),
+      mismatch: basis ? describeResultType(value) : undefined
+    };
+  }
+
+  if (!isList) {
+    // A single resource of the basis type is one episode; anything else is a mismatch
+    const matches = getResourceType(value) === basis;
+    return {
+      members: new Set(matches ? [getMemberKey(value)] : []),
+      mismatch: matches ? undefined : describeResultType(value)
+    };
+  }
+
+  const items = (value as unknown[]).filter(v => v !== null && v !== undefined);
+  const wrongType = basis !== undefined && items.some(v => getResourceType(v) !== basis);
+  return {
+    members: new Set(items.map(getMemberKey)),
+    mismatch: wrongType ? describeResultType(value) : undefined
+  };
+}
+
+/**
+ * Count the members of a population from its expression result.
+ *
+ * @param value - The CQL expression result
+ * @param basis - Population basis; inferred from the value if omitted
+ * @returns Population count
+ */
+export function countPopulation(value: unknown, basis?: string): number {
+  return getPopulationMembers(value, basis).members.size;
+}
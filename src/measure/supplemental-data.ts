@@ -0,0 +1,93 @@
+/**
+ * Supplemental Data
+ *
+ * Collects the supplemental data elements (SDEs) declared in the Measure's
+ * supplementalData from a patient's expression results, and verifies them
+ * against the SDE data in the expected MeasureReport where present.
+ */
+
+import { MeasureSupplementalData } from '../madie/package-loader.js';
+import { ExpectedSupplementalData } from '../madie/test-bundle-processor.js';
+import { getMemberKey, getResourceType } from './population-members.js';
+
+/**
+ * Supplemental data for one SDE in a test case
+ */
+export interface SupplementalDataResult {
+  id: string;
+  expression: string;
+  values: string[];           // Normalized codes and resource references
+  expected?: string[];        // Only when the MeasureReport has data for this SDE
+  passed?: boolean;
+}
+
+/**
+ * Keys followed when collecting codes from SDE results
+ * (Code/Concept, FHIR Coding/CodeableConcept and SDE tuples)
+ */
+const CODE_KEYS = ['code', 'codes', 'coding', 'value'];
+
+/**
+ * Collect normalized values from an SDE expression result.
+ * Codes contribute their code, FHIR resources their "Type/id" reference
+ * and primitives their string value.
+ */
+function collectValues(value: unknown, out: Set<string>, depth = 0): void {
+  if (value === null || value === undefined || depth > 5) {
+    return;
+  }
+  if (Array.isArray(value)) {
+    value.forEach(v => collectValues(v, out, depth + 1));
+    return;
+  }
+  if (typeof value !== 'object') {
+    out.add(String(value).trim().toLowerCase());
+    return;
+  }
+
+  const obj = value as Record<string, unknown>;
+  if (getResourceType(value) && obj.id && !obj.coding && !obj.code) {
+    out.add(getMemberKey(value).toLowerCase());
+    return;
+  }
+  for (const key of CODE_KEYS) {
+    if (key in obj) {
+      collectValues(obj[key], out, depth + 1);
+      return;
+    }
+  }
+}
+
+/**
+ * Collect supplemental data for a test case and compare with expectations.
+ *
+ * @param elements - SDEs from the Measure resource
+ * @param expressions - Patient expression results from the Executor
+ * @param expected - Expected SDE data from the MeasureReport
+ * @returns One result per SDE, in Measure order
+ */
+export function collectSupplementalData(
+  elements: MeasureSupplementalData[],
+  expressions: Record<string, unknown>,
+  expected: ExpectedSupplementalData[] = []
+): SupplementalDataResult[] {
+  return elements.map(sde => {
+    const values = new Set<string>();
+    collectValues(expressions[sde.expression], values);
+
+    const result: SupplementalDataResult = {
+      id: sde.id,
+      expression: sde.expression,
+      values: [...values].sort()
+    };
+
+    const exp = expected.find(e => e.criteriaReference === sde.id || e.criteriaReference === sde.expression);
+    if (exp) {
+      result.expected = exp.values;
+      result.passed = exp.values.length === result.values.length &&
+        exp.values.every((v, i) => v === result.values[i]);
+    }
+
+    return result;
+  });
+}
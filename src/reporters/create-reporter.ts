@@ -0,0 +1,42 @@
+/**
+ * Reporter Selection
+ *
+ * Output formats for madie test results (--reporter).
+ */
+
+import { createHtmlReporter } from './html-reporter.js';
+import { createJsonReporter } from './json-reporter.js';
+import { createJunitReporter } from './junit-reporter.js';
+import { createPrettyReporter } from './pretty-reporter.js';
+import { createTapReporter } from './tap-reporter.js';
+import { Reporter, ReporterContext } from './types.js';
+
+export const REPORTER_NAMES = ['pretty', 'json', 'junit', 'tap', 'html'] as const;
+
+export type ReporterName = typeof REPORTER_NAMES[number];
+
+export function isReporterName(name: string): name is ReporterName {
+  return (REPORTER_NAMES as readonly string[]).includes(name);
+}
+
+/**
+ * Create a reporter by name
+ *
+ * @param name - Reporter name
+ * @param context - Run information and output destination
+ * @param testCount - Number of test cases that will be reported
+ */
+export function createReporter(name: ReporterName, context: ReporterContext, testCount: number): Reporter {
+  switch (name) {
+    case 'json':
+      return createJsonReporter(context);
+    case 'junit':
+      return createJunitReporter(context);
+    case 'tap':
+      return createTapReporter(context, testCount);
+    case 'html':
+      return createHtmlReporter(context);
+    case 'pretty':
+      return createPrettyReporter(context);
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Report Formatting
+ *
+ * Value formatting and failure descriptions shared by the reporters.
+ */
+
+import { ObservationValues, POPULATION_COUNT_KEYS } from '../madie/test-bundle-processor.js';
+import { POPULATION_LABELS } from '../measure/group-comparison.js';
+import { ReporterContext, TestCaseReport } from './types.js';
+
+/**
+ * Format complex CQL and FHIR values for display
+ */
+export function formatValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+
+  if (typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+
+    // FHIR resource
+    if (obj.resourceType) {
+      const id = obj.id || 'unknown';
+      return `${obj.resourceType}/${id}`;
+    }
+
+    // CQL Interval
+    if ('low' in obj && 'high' in obj) {
+      return `Interval[${formatValue(obj.low)}, ${formatValue(obj.high)}]`;
+    }
+
+    // CQL Quantity
+    if ('value' in obj && 'unit' in obj) {
+      return `${obj.value} ${obj.unit}`;
+    }
+
+    // CQL Code
+    if ('code' in obj && 'system' in obj) {
+      return `${obj.system}|${obj.code}`;
+    }
+
+    // Generic object
+    return JSON.stringify(obj).slice(0, 100);
+  }
+
+  return String(value);
+}
+
+/**
+ * Format observation values for display, in ascending order
+ */
+export function formatObservations(observations: ObservationValues): string {
+  return `[${Object.values(observations).sort((a, b) => a - b).join(', ')}]`;
+}
+
+/**
+ * Test case counts for a run. Failures listed in the known failures
+ * manifest (XFAIL) are counted separately and do not fail the run.
+ */
+export interface ResultCounts {
+  passed: number;
+  failed: number;            // Unexplained failures
+  expectedFailures: number;  // XFAIL
+  unexpectedPasses: number;  // XPASS (included in passed)
+}
+
+/**
+ * Whether a test case failed without being explained by the known failures manifest
+ */
+export function isUnexplainedFailure(report: TestCaseReport): boolean {
+  return !report.passed && report.knownFailure?.status !== 'xfail';
+}
+
+export function countResults(reports: TestCaseReport[]): ResultCounts {
+  return {
+    passed: reports.filter(r => r.passed).length,
+    failed: reports.filter(isUnexplainedFailure).length,
+    expectedFailures: reports.filter(r => r.knownFailure?.status === 'xfail').length,
+    unexpectedPasses: reports.filter(r => r.knownFailure?.status === 'xpass').length
+  };
+}
+
+/**
+ * Escape text for XML and HTML content and attribute values
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Build unique titles for test cases: name_N when a name occurs more than once
+ */
+export function buildUniqueTitles(reports: TestCaseReport[]): string[] {
+  const nameCounts: Record<string, number> = {};
+  const nameIndices: Record<string, number> = {};
+
+  for (const r of reports) {
+    nameCounts[r.testCase.name] = (nameCounts[r.testCase.name] || 0) + 1;
+  }
+
+  return reports.map(r => {
+    if (nameCounts[r.testCase.name] > 1) {
+      nameIndices[r.testCase.name] = (nameIndices[r.testCase.name] || 0) + 1;
+      return `${r.testCase.name}_${nameIndices[r.testCase.name]}`;
+    }
+    return r.testCase.name;
+  });
+}
+
+/**
+ * Describe why a test case failed, one line per mismatch.
+ * Group lines name the mismatched parts and their expected/actual values.
+ */
+export function describeFailures(report: TestCaseReport, context: ReporterContext): string[] {
+  if (report.error) {
+    return [report.error];
+  }
+
+  const lines: string[] = [];
+
+  if (report.knownFailure?.status === 'changed') {
+    lines.push(`Known failure (${report.knownFailure.reason}) no longer matches its snapshot: ${report.knownFailure.differences.join('; ')}`);
+  }
+
+  if (report.actualCount !== report.expectedCount) {
+    lines.push(`Initial Population: expected ${report.expectedCount}, got ${report.actualCount}`);
+  }
+
+  for (const gc of report.groupComparisons ?? []) {
+    if (gc.passed) continue;
+
+    const details: string[] = [];
+    const groupDef = context.measureGroups.find(g => g.id === gc.groupId);
+    if (gc.mismatches.includes('counts')) {
+      for (const pop of groupDef?.populations ?? []) {
+        const key = POPULATION_COUNT_KEYS[pop.code];
+        if (key && gc.expected[key] !== gc.actual[key]) {
+          details.push(`${POPULATION_LABELS[key]} exp=${gc.expected[key]} act=${gc.actual[key]}`);
+        }
+      }
+    }
+    if (gc.mismatches.includes('observations')) {
+      details.push(`observations exp=${formatObservations(gc.expected.observations)} act=${formatObservations(gc.actual.observations)}`);
+    }
+    if (gc.mismatches.includes('score')) {
+      details.push(`score exp=${gc.expectedScore} act=${gc.actualScore}`);
+    }
+    for (const st of gc.strata.filter(st => !st.passed)) {
+      details.push(`stratum ${st.stratifierId}=${st.value} ${st.mismatches.join(', ')} mismatch`);
+    }
+
+    const name = context.groupNames[gc.groupId] && context.groupNames[gc.groupId] !== gc.groupId
+      ? `${gc.groupId} (${context.groupNames[gc.groupId]})`
+      : gc.groupId;
+    lines.push(`${name}: ${gc.mismatches.join(', ')} mismatch${details.length > 0 ? ` - ${details.join('; ')}` : ''}`);
+  }
+
+  for (const sde of report.supplementalData ?? []) {
+    if (sde.passed === false) {
+      lines.push(`${sde.expression}: expected ${sde.expected!.join(', ') || 'null'}, got ${sde.values.join(', ') || 'null'}`);
+    }
+  }
+
+  return lines;
+}
@@ -0,0 +1,235 @@
+/**
+ * HTML Reporter
+ *
+ * A single self-contained HTML page (inline CSS and script, no external
+ * assets) with a run summary, filterable PASS/FAIL rows, an expected vs
+ * actual table per group and collapsible expression values (--full).
+ */
+
+import { POPULATION_COUNT_KEYS } from '../madie/test-bundle-processor.js';
+import { GroupComparison, POPULATION_LABELS } from '../measure/group-comparison.js';
+import { buildUniqueTitles, countResults, describeFailures, escapeXml, formatObservations, formatValue } from './format.js';
+import { Reporter, ReporterContext, TestCaseReport } from './types.js';
+
+const STYLE = `
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #222; }
+h1 { font-size: 1.4rem; margin-bottom: 0.2rem; }
+.meta { color: #666; margin-bottom: 1rem; }
+.summary { display: flex; gap: 1rem; margin-bottom: 1rem; }
+.summary div { padding: 0.5rem 1rem; border-radius: 4px; background: #f3f3f3; }
+.toolbar { display: flex; gap: 0.5rem; margin-bottom: 1rem; }
+.toolbar button { padding: 0.3rem 0.8rem; border: 1px solid #bbb; background: #fff; border-radius: 4px; cursor: pointer; }
+.toolbar button.active { background: #333; color: #fff; }
+.toolbar input { flex: 1; padding: 0.3rem; }
+details.case { border: 1px solid #ddd; border-radius: 4px; margin-bottom: 0.4rem; }
+details.case > summary { padding: 0.4rem 0.6rem; cursor: pointer; }
+.case-body { padding: 0 0.8rem 0.8rem; }
+.badge { display: inline-block; min-width: 3.5rem; text-align: center; font-weight: bold; border-radius: 3px; color: #fff; margin-right: 0.5rem; }
+.pass .badge { background: #2e7d32; }
+.fail .badge { background: #c62828; }
+.error .badge { background: #6a1b9a; }
+.xfail .badge { background: #ef6c00; }
+.xpass .badge { background: #ad1457; }
+.description { color: #666; }
+table { border-collapse: collapse; margin: 0.5rem 0; }
+th, td { border: 1px solid #ddd; padding: 0.2rem 0.6rem; text-align: left; }
+th { background: #f6f6f6; }
+td.mismatch { background: #ffebee; font-weight: bold; }
+ul.failures { color: #c62828; }
+pre { background: #f6f6f6; padding: 0.5rem; overflow-x: auto; max-height: 30rem; }
+.warning { color: #ef6c00; }
+`;
+
+const SCRIPT = `
+(function () {
+  var filter = 'all';
+  var search = document.getElementById('search');
+  function apply() {
+    var text = search.value.toLowerCase();
+    document.querySelectorAll('details.case').forEach(function (el) {
+      var statusMatch = filter === 'all' || el.dataset.status === filter;
+      var textMatch = !text || el.dataset.search.indexOf(text) !== -1;
+      el.hidden = !(statusMatch && textMatch);
+    });
+  }
+  document.querySelectorAll('.toolbar button').forEach(function (button) {
+    button.addEventListener('click', function () {
+      document.querySelectorAll('.toolbar button').forEach(function (b) { b.classList.remove('active'); });
+      button.classList.add('active');
+      filter = button.dataset.filter;
+      apply();
+    });
+  });
+  search.addEventListener('input', apply);
+})();
+`;
+
+function statusOf(report: TestCaseReport): 'pass' | 'fail' | 'error' | 'xfail' | 'xpass' {
+  if (report.knownFailure?.status === 'xfail' || report.knownFailure?.status === 'xpass') {
+    return report.knownFailure.status;
+  }
+  return report.error ? 'error' : report.passed ? 'pass' : 'fail';
+}
+
+function cell(value: unknown, mismatch: boolean): string {
+  return `<td${mismatch ? ' class="mismatch"' : ''}>${escapeXml(String(value))}</td>`;
+}
+
+/**
+ * Expected vs actual table for one group: populations, score, observations and strata
+ */
+function renderGroup(gc: GroupComparison, context: ReporterContext): string {
+  const groupDef = context.measureGroups.find(g => g.id === gc.groupId);
+  const name = context.groupNames[gc.groupId] || gc.groupId;
+  const keys = (groupDef?.populations ?? [])
+    .map(p => POPULATION_COUNT_KEYS[p.code])
+    .filter(key => key);
+
+  const rows = keys.map(key =>
+    `<tr><td>${POPULATION_LABELS[key]}</td>${cell(gc.expected[key], false)}${cell(gc.actual[key], gc.expected[key] !== gc.actual[key])}</tr>`
+  );
+  if (gc.expectedScore !== null || gc.actualScore !== null) {
+    rows.push(`<tr><td>Score</td>${cell(gc.expectedScore ?? '-', false)}${cell(gc.actualScore ?? '-', gc.mismatches.includes('score'))}</tr>`);
+  }
+  if (groupDef?.hasObservations) {
+    rows.push(`<tr><td>Observations</td>${cell(formatObservations(gc.expected.observations), false)}${cell(formatObservations(gc.actual.observations), gc.mismatches.includes('observations'))}</tr>`);
+  }
+
+  const parts = [
+    `<h4>${escapeXml(gc.groupId)}${name !== gc.groupId ? ` &ndash; ${escapeXml(name)}` : ''} ${gc.passed ? '' : `<span class="warning">(${gc.mismatches.join(', ')} mismatch)</span>`}</h4>`,
+    `<table><tr><th>Population</th><th>Expected</th><th>Actual</th></tr>${rows.join('')}</table>`
+  ];
+
+  for (const mismatch of gc.basisMismatches) {
+    parts.push(`<div class="warning">Warning: ${escapeXml(mismatch)}</div>`);
+  }
+
+  if (gc.strata.length > 0) {
+    const header = keys.map(key => `<th>${POPULATION_LABELS[key]} exp</th><th>${POPULATION_LABELS[key]} act</th>`).join('');
+    const strataRows = gc.strata.map(st => {
+      const counts = keys.map(key => `${cell(st.expected[key], false)}${cell(st.actual[key], st.expected[key] !== st.actual[key])}`).join('');
+      const score = `${cell(st.expectedScore ?? '-', false)}${cell(st.actualScore ?? '-', st.mismatches.includes('score'))}`;
+      return `<tr><td>${escapeXml(st.stratifierId)}</td><td>${escapeXml(st.value)}</td>${counts}${score}</tr>`;
+    });
+    parts.push(`<table><tr><th>Stratifier</th><th>Value</th>${header}<th>Score exp</th><th>Score act</th></tr>${strataRows.join('')}</table>`);
+  }
+
+  return parts.join('\n');
+}
+
+/**
+ * Collapsible expression results, one entry per define
+ */
+function renderExpressions(expressions: Record<string, unknown>): string {
+  const entries = Object.entries(expressions)
+    .filter(([name]) => !name.startsWith('__'))
+    .map(([name, value]) => {
+      const brief = Array.isArray(value) ? `[${value.length} items]` : formatValue(value);
+      return `<details><summary>${escapeXml(name)}: ${escapeXml(brief)}</summary><pre>${escapeXml(JSON.stringify(value, null, 2) ?? 'null')}</pre></details>`;
+    });
+  return `<details><summary>Expressions (${entries.length})</summary>${entries.join('\n')}</details>`;
+}
+
+function renderTestCase(report: TestCaseReport, title: string, context: ReporterContext): string {
+  const status = statusOf(report);
+  const description = report.testCase.expectedResults.description;
+  const search = `${title} ${report.testCase.id} ${description ?? ''}`.toLowerCase();
+  const body: string[] = [];
+
+  body.push(`<div class="meta">Test case ${escapeXml(report.testCase.id)}</div>`);
+
+  if (report.knownFailure) {
+    const note = report.knownFailure.status === 'xpass'
+      ? 'Listed as a known failure but passed'
+      : 'Known failure';
+    body.push(`<div class="warning">${note}: ${escapeXml(report.knownFailure.reason)}</div>`);
+  }
+
+  if (!report.passed) {
+    const failures = describeFailures(report, context);
+    if (failures.length > 0) {
+      body.push(`<ul class="failures">${failures.map(f => `<li>${escapeXml(f)}</li>`).join('')}</ul>`);
+    }
+  }
+
+  if (!report.error) {
+    body.push(`<div>Initial Population: expected ${report.expectedCount}, actual ${report.actualCount}</div>`);
+    for (const gc of report.groupComparisons ?? []) {
+      body.push(renderGroup(gc, context));
+    }
+  }
+
+  const supplementalData = report.supplementalData ?? [];
+  if (supplementalData.length > 0) {
+    const rows = supplementalData.map(sde =>
+      `<tr><td>${escapeXml(sde.expression)}</td>${cell(sde.expected ? sde.expected.join(', ') || 'null' : '-', false)}${cell(sde.values.join(', ') || 'null', sde.passed === false)}</tr>`
+    );
+    body.push(`<h4>Supplemental Data</h4><table><tr><th>Element</th><th>Expected</th><th>Actual</th></tr>${rows.join('')}</table>`);
+  }
+
+  if (context.full && report.expressions) {
+    body.push(renderExpressions(report.expressions));
+  }
+
+  return [
+    `<details class="case ${status}" data-status="${status}" data-search="${escapeXml(search)}"${status === 'fail' || status === 'error' ? ' open' : ''}>`,
+    `<summary><span class="badge">${status.toUpperCase()}</span>${escapeXml(title)}${description ? ` <span class="description">${escapeXml(description)}</span>` : ''}</summary>`,
+    `<div class="case-body">${body.join('\n')}</div>`,
+    '</details>'
+  ].join('\n');
+}
+
+/**
+ * Build the HTML report document for a run
+ */
+export function buildHtmlReport(reports: TestCaseReport[], context: ReporterContext): string {
+  const titles = buildUniqueTitles(reports);
+  const counts = countResults(reports);
+  const errorCount = reports.filter(r => r.error).length;
+  const failedCount = counts.failed - errorCount;
+  const packageName = escapeXml(context.packageName);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${packageName} test report</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>${packageName}</h1>
+<div class="meta">Generated ${new Date().toISOString()}</div>
+<div class="summary">
+<div>Total: <strong>${reports.length}</strong></div>
+<div>Passed: <strong>${counts.passed}</strong></div>
+<div>Failed: <strong>${failedCount}</strong></div>
+<div>Errors: <strong>${errorCount}</strong></div>
+<div>Known failures: <strong>${counts.expectedFailures}</strong></div>
+<div>Unexpected passes: <strong>${counts.unexpectedPasses}</strong></div>
+${context.skipped > 0 ? `<div>Skipped by selection: <strong>${context.skipped}</strong></div>\n` : ''}</div>
+<div class="toolbar">
+<button class="active" data-filter="all">All</button>
+<button data-filter="pass">Passed</button>
+<button data-filter="fail">Failed</button>
+<button data-filter="error">Errors</button>
+<button data-filter="xfail">Known failures</button>
+<button data-filter="xpass">Unexpected passes</button>
+<input id="search" type="search" placeholder="Filter by name, id or description">
+</div>
+${reports.map((r, i) => renderTestCase(r, titles[i], context)).join('\n')}
+<script>${SCRIPT}</script>
+</body>
+</html>`;
+}
+
+export function createHtmlReporter(context: ReporterContext): Reporter {
+  return {
+    onTestCase(): void {
+      // The document is written once all results are in
+    },
+
+    onComplete(reports: TestCaseReport[]): void {
+      context.write(buildHtmlReport(reports, context));
+    }
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * JSON Reporter
+ *
+ * Writes the results document also saved by --output.
+ */
+
+import { buildUniqueTitles, countResults } from './format.js';
+import { Reporter, ReporterContext, TestCaseReport } from './types.js';
+
+/**
+ * Build the JSON results document for a run
+ */
+export function buildJsonOutput(reports: TestCaseReport[], context: ReporterContext): Record<string, unknown> {
+  const { groupNames, isMultiGroupMeasure, showGroups, full } = context;
+  const counts = countResults(reports);
+
+  const outputData: Record<string, unknown> = {
+    package: context.packageName,
+    timestamp: new Date().toISOString(),
+    total: reports.length,
+    passed: counts.passed,
+    failed: reports.length - counts.passed
+  };
+
+  if (context.skipped > 0) {
+    outputData.skipped = context.skipped;
+  }
+
+  // Only include known failure counts when a manifest is in use
+  if (reports.some(r => r.knownFailure)) {
+    outputData.knownFailures = counts.expectedFailures;
+    outputData.unexpectedPasses = counts.unexpectedPasses;
+    outputData.unexplainedFailures = counts.failed;
+  }
+
+  // Only include groupNames for measures reported per group
+  if (showGroups && Object.keys(groupNames).length > 0) {
+    outputData.groupNames = groupNames;
+  }
+
+  const titles = buildUniqueTitles(reports);
+
+  outputData.results = reports.map((r, i) => {
+    const result: Record<string, unknown> = {
+      id: r.testCase.id,
+      name: r.testCase.name,
+      title: titles[i],
+      description: r.testCase.expectedResults.description || '',
+      passed: r.passed
+    };
+
+    // For single-group measures, use descriptive format
+    if (!isMultiGroupMeasure) {
+      result.expected = { initialPopulation: r.expectedCount };
+      result.actual = { initialPopulation: r.actualCount };
+    } else {
+      // For multi-group measures, keep simple counts at top level
+      result.expected = r.expectedCount;
+      result.actual = r.actualCount;
+      if (r.observations) {
+        result.observations = r.observations;
+      }
+    }
+    // Only include groups for measures reported per group
+    if (showGroups && r.groupComparisons) {
+      result.groups = r.groupComparisons.map(gc => ({
+        groupId: gc.groupId,
+        groupName: groupNames[gc.groupId] || gc.groupId,
+        passed: gc.passed,
+        expected: gc.expected,
+        actual: gc.actual,
+        expectedScore: gc.expectedScore,
+        actualScore: gc.actualScore,
+        ...(gc.mismatches.length > 0 && { mismatches: gc.mismatches }),
+        ...(gc.strata.length > 0 && { strata: gc.strata }),
+        ...(gc.basisMismatches.length > 0 && { basisMismatches: gc.basisMismatches })
+      }));
+    }
+    if (r.supplementalData && r.supplementalData.length > 0) {
+      result.supplementalData = r.supplementalData;
+    }
+    if (r.error) result.error = r.error;
+    if (r.knownFailure) result.knownFailure = r.knownFailure;
+    if (full && r.expressions) result.expressions = r.expressions;
+    if (r.trace) result.trace = r.trace;
+    return result;
+  });
+
+  return outputData;
+}
+
+export function createJsonReporter(context: ReporterContext): Reporter {
+  return {
+    onTestCase(): void {
+      // The document is written once all results are in
+    },
+
+    onComplete(reports: TestCaseReport[]): void {
+      context.write(JSON.stringify(buildJsonOutput(reports, context), null, 2));
+    }
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * JUnit Reporter
+ *
+ * JUnit XML for CI dashboards: one <testcase> per test case. Mismatches are
+ * reported as <failure>, test cases that could not be executed as <error>.
+ */
+
+import { buildUniqueTitles, describeFailures, escapeXml } from './format.js';
+import { Reporter, ReporterContext, TestCaseReport } from './types.js';
+
+function formatSeconds(ms: number | undefined): string {
+  return ((ms ?? 0) / 1000).toFixed(3);
+}
+
+export function createJunitReporter(context: ReporterContext): Reporter {
+  return {
+    onTestCase(): void {
+      // The document is written once all results are in
+    },
+
+    onComplete(reports: TestCaseReport[]): void {
+      const titles = buildUniqueTitles(reports);
+      const errors = reports.filter(r => r.error).length;
+      const skipped = reports.filter(r => r.knownFailure?.status === 'xfail').length;
+      const failures = reports.filter(r => !r.passed && !r.error).length - skipped;
+      const totalMs = reports.reduce((sum, r) => sum + (r.durationMs ?? 0), 0);
+      const suite = escapeXml(context.packageName);
+
+      const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<testsuites name="${suite}" tests="${reports.length}" failures="${failures}" errors="${errors}" time="${formatSeconds(totalMs)}">`,
+        `  <testsuite name="${suite}" tests="${reports.length}" failures="${failures}" errors="${errors}" skipped="${skipped}" time="${formatSeconds(totalMs)}">`
+      ];
+
+      for (const [i, report] of reports.entries()) {
+        const attributes = `classname="${suite}" name="${escapeXml(titles[i])}" time="${formatSeconds(report.durationMs)}"`;
+        if (report.knownFailure?.status === 'xpass') {
+          lines.push(`    <testcase ${attributes}>`);
+          lines.push(`      <system-out>${escapeXml(`Unexpected pass: listed as a known failure (${report.knownFailure.reason})`)}</system-out>`);
+          lines.push('    </testcase>');
+          continue;
+        }
+        if (report.passed) {
+          lines.push(`    <testcase ${attributes}/>`);
+          continue;
+        }
+        // Known failures are reported as skipped, so they don't fail the build
+        if (report.knownFailure?.status === 'xfail') {
+          lines.push(`    <testcase ${attributes}>`);
+          lines.push(`      <skipped message="${escapeXml(`Known failure: ${report.knownFailure.reason}`)}"/>`);
+          lines.push('    </testcase>');
+          continue;
+        }
+
+        const details = describeFailures(report, context);
+        const element = report.error ? 'error' : 'failure';
+        const message = report.error ? report.error : details.join('; ');
+        lines.push(`    <testcase ${attributes}>`);
+        lines.push(`      <${element} message="${escapeXml(message)}" type="${report.error ? 'ExecutionError' : 'MeasureMismatch'}">${escapeXml(
+          [`Test case ${report.testCase.id}`, ...details].join('\n')
+        )}</${element}>`);
+        lines.push('    </testcase>');
+      }
+
+      lines.push('  </testsuite>');
+      lines.push('</testsuites>');
+      context.write(lines.join('\n'));
+    }
+  };
+}
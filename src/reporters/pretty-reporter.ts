@@ -0,0 +1,176 @@
+/**
+ * Pretty Reporter
+ *
+ * Human-readable console output: one PASS/FAIL/ERROR line per test case,
+ * with expected vs actual details for failures (and everything with --verbose).
+ */
+
+import chalk from 'chalk';
+import { POPULATION_COUNT_KEYS } from '../madie/test-bundle-processor.js';
+import { POPULATION_LABELS } from '../measure/group-comparison.js';
+import { countResults, formatObservations, formatValue } from './format.js';
+import { formatTrace } from '../engine/expression-trace.js';
+import { Reporter, ReporterContext, TestCaseReport } from './types.js';
+
+/**
+ * Format result counts for a run, e.g. "3 passed, 1 failed, 1 known failure(s)"
+ */
+export function formatResultCounts(reports: TestCaseReport[], skipped = 0): string {
+  const counts = countResults(reports);
+  const parts = [
+    chalk.green(`${counts.passed} passed`),
+    counts.failed > 0 ? chalk.red(`${counts.failed} failed`) : chalk.gray('0 failed')
+  ];
+  if (counts.expectedFailures > 0) parts.push(chalk.yellow(`${counts.expectedFailures} known failure(s)`));
+  if (counts.unexpectedPasses > 0) parts.push(chalk.magenta(`${counts.unexpectedPasses} unexpected pass(es)`));
+  if (skipped > 0) parts.push(chalk.gray(`${skipped} skipped by selection`));
+  return parts.join(', ');
+}
+
+/**
+ * Format the Results line for a run
+ */
+export function formatResultsLine(reports: TestCaseReport[], skipped = 0): string {
+  return `Results: ${formatResultCounts(reports, skipped)}`;
+}
+
+export function createPrettyReporter(context: ReporterContext): Reporter {
+  const { measureGroups, isMultiGroupMeasure, showGroups, verbose, write } = context;
+
+  return {
+    onTestCase(result: TestCaseReport): void {
+      const { testCase } = result;
+
+      const knownFailure = result.knownFailure;
+
+      if (result.error) {
+        write(chalk.red(`[ERROR] ${testCase.name}`));
+        write(chalk.red(`  ${result.error}`));
+        if (knownFailure) {
+          write(chalk.yellow(`  Known failure (${knownFailure.reason}), but the test case could not be executed`));
+        }
+        return;
+      }
+
+      const groupComparisons = result.groupComparisons ?? [];
+      const supplementalData = result.supplementalData ?? [];
+      const observations = result.observations ?? {};
+      const patientResults = result.expressions ?? {};
+      const allGroupsPass = groupComparisons.every(g => g.passed);
+      const sdePass = supplementalData.every(sde => sde.passed !== false);
+
+      // Output result
+      const statusIcon = knownFailure?.status === 'xfail'
+        ? chalk.yellow('[XFAIL]')
+        : knownFailure?.status === 'xpass'
+          ? chalk.magenta('[XPASS]')
+          : result.passed ? chalk.green('[PASS]') : chalk.red('[FAIL]');
+      write(`${statusIcon} ${testCase.name}`);
+
+      if (knownFailure?.status === 'xfail') {
+        write(chalk.gray(`  Known failure: ${knownFailure.reason}`));
+      } else if (knownFailure?.status === 'xpass') {
+        write(chalk.magenta(`  Listed as a known failure (${knownFailure.reason}) but passed; remove it from the manifest`));
+      } else if (knownFailure?.status === 'changed') {
+        write(chalk.red(`  Known failure (${knownFailure.reason}), but the actual results no longer match its snapshot:`));
+        for (const difference of knownFailure.differences) {
+          write(chalk.red(`    ${difference}`));
+        }
+      }
+
+      // Always report population basis mismatches - counts may be unreliable
+      for (const gc of groupComparisons) {
+        for (const mismatch of gc.basisMismatches) {
+          write(chalk.yellow(`  Warning: ${gc.groupId}: ${mismatch}`));
+        }
+      }
+
+      // Known failures show their details with --verbose only
+      if ((!result.passed && knownFailure?.status !== 'xfail') || verbose) {
+        write(chalk.gray(`  Initial Population: expected ${result.expectedCount}, got ${result.actualCount}`));
+
+        // Only show observation scores for multi-group measures
+        if (isMultiGroupMeasure) {
+          const summary = Object.entries(observations)
+            .map(([groupId, values]) => `${groupId}=${formatObservations(values)}`);
+          write(chalk.gray(`  Observations: ${summary.join(', ')}`));
+        }
+
+        // Show group comparison details for failures
+        if (showGroups && !allGroupsPass) {
+          write(chalk.gray('  Group Comparisons:'));
+          for (const gc of groupComparisons) {
+            const groupStatus = gc.passed ? chalk.green('OK') : chalk.red('FAIL');
+            if (!gc.passed || verbose) {
+              const reason = gc.passed ? '' : ` ${gc.mismatches.join(', ')} mismatch`;
+              write(chalk.gray(`    ${gc.groupId}: [${groupStatus}]${reason}`));
+              // Show the populations this group defines
+              const groupDef = measureGroups.find(g => g.id === gc.groupId);
+              for (const pop of groupDef?.populations ?? []) {
+                const key = POPULATION_COUNT_KEYS[pop.code];
+                if (!key) continue;
+                write(chalk.gray(`      ${POPULATION_LABELS[key]}: exp=${gc.expected[key]}, act=${gc.actual[key]}`));
+              }
+              if (gc.expectedScore !== null) {
+                write(chalk.gray(`      Score: exp=${gc.expectedScore}, act=${gc.actualScore}`));
+              }
+              for (const st of gc.strata.filter(st => !st.passed || verbose)) {
+                const stratumStatus = st.passed ? chalk.green('OK') : chalk.red('FAIL');
+                const counts = (groupDef?.populations ?? [])
+                  .map(p => POPULATION_COUNT_KEYS[p.code])
+                  .filter(key => key)
+                  .map(key => `${POPULATION_LABELS[key]} exp=${st.expected[key]} act=${st.actual[key]}`);
+                if (st.expectedScore !== null) {
+                  counts.push(`score exp=${st.expectedScore} act=${st.actualScore}`);
+                }
+                write(chalk.gray(`      Stratum ${st.stratifierId}=${st.value}: [${stratumStatus}] ${counts.join(', ')}`));
+              }
+              if (groupDef?.hasObservations) {
+                // Show individual observation values (compared regardless of order)
+                const expObs = formatObservations(gc.expected.observations);
+                const actObs = formatObservations(gc.actual.observations);
+                write(chalk.gray(`      Observations: exp=${expObs}, act=${actObs}`));
+              }
+            }
+          }
+        }
+      }
+
+      if ((!sdePass || verbose) && supplementalData.length > 0) {
+        write(chalk.gray('  Supplemental Data:'));
+        for (const sde of supplementalData) {
+          const actual = sde.values.join(', ') || 'null';
+          if (sde.passed === false) {
+            write(chalk.red(`    ${sde.expression}: ${actual} (expected: ${sde.expected!.join(', ') || 'null'})`));
+          } else {
+            write(chalk.gray(`    ${sde.expression}: ${actual}`));
+          }
+        }
+      }
+
+      if (verbose && Object.keys(patientResults).length > 0) {
+        write(chalk.gray('  Expressions:'));
+        for (const [name, value] of Object.entries(patientResults)) {
+          if (name.startsWith('__')) continue;
+          const displayValue = Array.isArray(value)
+            ? `[${value.length} items]`
+            : value === null || value === undefined
+              ? 'null'
+              : typeof value === 'object'
+                ? formatValue(value)
+                : String(value);
+          write(chalk.gray(`    ${name}: ${displayValue}`));
+        }
+      }
+
+      if (result.trace) {
+        write(chalk.gray('  Trace:'));
+        formatTrace(result.trace, '    ').forEach(line => write(line));
+      }
+    },
+
+    onComplete(reports: TestCaseReport[]): void {
+      write(formatResultsLine(reports, context.skipped));
+    }
+  };
+}
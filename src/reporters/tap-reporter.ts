@@ -0,0 +1,67 @@
+/**
+ * TAP Reporter
+ *
+ * TAP version 13 output, streamed as results arrive. Failures carry a YAML
+ * diagnostic block with the mismatch details; execution errors are marked
+ * with severity "error".
+ */
+
+import { countResults, describeFailures } from './format.js';
+import { Reporter, ReporterContext, TestCaseReport } from './types.js';
+
+/**
+ * Quote a string for a YAML diagnostic block
+ */
+function yamlString(text: string): string {
+  return JSON.stringify(text);
+}
+
+export function createTapReporter(context: ReporterContext, testCount: number): Reporter {
+  const { write } = context;
+  let testNumber = 0;
+
+  write('TAP version 13');
+  write(`1..${testCount}`);
+
+  return {
+    onTestCase(report: TestCaseReport): void {
+      testNumber++;
+      const description = report.testCase.name.replace(/#/g, '\\#');
+
+      // Known failures use TAP TODO directives: a failing TODO test does not fail the run
+      if (report.knownFailure && report.knownFailure.status !== 'changed') {
+        const todo = ` # TODO Known failure: ${report.knownFailure.reason.replace(/#/g, '\\#')}`;
+        write(`${report.passed ? 'ok' : 'not ok'} ${testNumber} - ${description}${todo}`);
+        return;
+      }
+      if (report.passed) {
+        write(`ok ${testNumber} - ${description}`);
+        return;
+      }
+
+      const failures = describeFailures(report, context);
+      write(`not ok ${testNumber} - ${description}`);
+      write('  ---');
+      write(`  message: ${yamlString(report.error ?? failures[0] ?? 'Test case failed')}`);
+      write(`  severity: ${report.error ? 'error' : 'fail'}`);
+      write(`  id: ${yamlString(report.testCase.id)}`);
+      if (!report.error && failures.length > 0) {
+        write('  failures:');
+        for (const failure of failures) {
+          write(`    - ${yamlString(failure)}`);
+        }
+      }
+      write('  ...');
+    },
+
+    onComplete(reports: TestCaseReport[]): void {
+      const counts = countResults(reports);
+      write(`# tests ${reports.length}`);
+      write(`# pass ${counts.passed}`);
+      write(`# fail ${counts.failed}`);
+      if (counts.expectedFailures + counts.unexpectedPasses > 0) {
+        write(`# todo ${counts.expectedFailures + counts.unexpectedPasses}`);
+      }
+    }
+  };
+}
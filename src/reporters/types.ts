@@ -0,0 +1,39 @@
+/**
+ * Reporter Types
+ *
+ * Shared types for madie test result reporters.
+ */
+
+import { MeasureGroup } from '../madie/package-loader.js';
+import { TestCase } from '../madie/test-bundle-processor.js';
+import { TestCaseResult } from '../madie/test-case-runner.js';
+import { KnownFailureResult } from '../madie/known-failures.js';
+
+/**
+ * A test case together with its result, and its known failure outcome
+ * when the test case is listed in the known failures manifest
+ */
+export type TestCaseReport = TestCaseResult & { testCase: TestCase; knownFailure?: KnownFailureResult };
+
+/**
+ * Information about the run shared by all reporters
+ */
+export interface ReporterContext {
+  packageName: string;
+  measureGroups: MeasureGroup[];
+  groupNames: Record<string, string>;
+  isMultiGroupMeasure: boolean;  // Multiple groups with observations
+  showGroups: boolean;           // Results are reported per group
+  verbose: boolean;
+  full: boolean;                 // Include expression results
+  skipped: number;               // Test cases left out by selection (--grep, --group, ...)
+  write: (text: string) => void; // Output destination (stdout or --reporter-output)
+}
+
+/**
+ * Receives test case results in test case order
+ */
+export interface Reporter {
+  onTestCase(report: TestCaseReport): void;
+  onComplete(reports: TestCaseReport[]): void;
+}
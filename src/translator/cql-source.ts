@@ -0,0 +1,138 @@
+/**
+ * CQL Source Files
+ *
+ * Reads library declarations and includes from CQL source, and finds the
+ * .cql files of included libraries so they can be sent to the translator.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { CqlSource } from './types.js';
+
+const IDENTIFIER = `(?:"([^"]+)"|([A-Za-z_][A-Za-z0-9_.]*))`;
+const LIBRARY_DECLARATION = new RegExp(`^\\s*library\\s+${IDENTIFIER}(?:\\s+version\\s+'([^']*)')?`, 'm');
+const INCLUDE_DECLARATION = new RegExp(`^\\s*include\\s+${IDENTIFIER}(?:\\s+version\\s+'([^']*)')?`, 'gm');
+
+/**
+ * Check whether a path names a CQL source file
+ */
+export function isCqlPath(filePath: string): boolean {
+  return path.extname(filePath).toLowerCase() === '.cql';
+}
+
+/**
+ * Blank out comments, keeping line numbers
+ */
+function stripComments(source: string): string {
+  return source
+    .replace(/\/\*[\s\S]*?\*\//g, comment => comment.replace(/[^\n]/g, ' '))
+    .replace(/\/\/[^\n]*/g, '');
+}
+
+/**
+ * Last segment of a (possibly namespace-qualified) library name
+ */
+function libraryName(quoted: string | undefined, plain: string | undefined): string {
+  return quoted ?? plain!.split('.').pop()!;
+}
+
+/**
+ * Read the library identifier and version from CQL source
+ *
+ * @returns The identifier, or null when the source has no library declaration
+ */
+export function readCqlLibraryIdentifier(source: string): { id: string; version?: string } | null {
+  const match = stripComments(source).match(LIBRARY_DECLARATION);
+  return match ? { id: libraryName(match[1], match[2]), version: match[3] } : null;
+}
+
+/**
+ * Read the include declarations from CQL source
+ */
+export function readCqlIncludes(source: string): Array<{ id: string; version?: string }> {
+  return [...stripComments(source).matchAll(INCLUDE_DECLARATION)]
+    .map(match => ({ id: libraryName(match[1], match[2]), version: match[3] }));
+}
+
+/**
+ * Load a CQL file as a translator source
+ */
+export function loadCqlSource(filePath: string): CqlSource {
+  const absolutePath = path.resolve(filePath);
+  const source = fs.readFileSync(absolutePath, 'utf-8');
+  const identifier = readCqlLibraryIdentifier(source);
+  return {
+    name: identifier?.id ?? path.basename(absolutePath, path.extname(absolutePath)),
+    version: identifier?.version,
+    filePath: absolutePath,
+    source
+  };
+}
+
+/**
+ * Find the .cql files in directories, including nested directories
+ */
+function findCqlFiles(searchPaths: string[]): string[] {
+  const files: string[] = [];
+  const visit = (dir: string) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const filePath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!entry.name.startsWith('.') && entry.name !== 'node_modules') visit(filePath);
+      } else if (isCqlPath(entry.name)) {
+        files.push(filePath);
+      }
+    }
+  };
+
+  for (const searchPath of new Set(searchPaths.map(p => path.resolve(p)))) {
+    if (fs.existsSync(searchPath) && fs.statSync(searchPath).isDirectory()) visit(searchPath);
+  }
+  return files;
+}
+
+/**
+ * Collect the sources of the libraries a CQL library includes, transitively.
+ * Includes without a .cql file (e.g. FHIRHelpers provided by the translator)
+ * are left for the translator to resolve or report.
+ *
+ * @param main - The library to translate
+ * @param searchPaths - Directories searched recursively for .cql files
+ */
+export function collectIncludedSources(main: CqlSource, searchPaths: string[]): CqlSource[] {
+  const available = findCqlFiles(searchPaths)
+    .filter(file => file !== main.filePath)
+    .map(file => loadCqlSource(file));
+
+  const included: CqlSource[] = [];
+  const queue = [main];
+  while (queue.length > 0) {
+    for (const include of readCqlIncludes(queue.shift()!.source)) {
+      const match = available.find(s =>
+        s.name === include.id && (!include.version || s.version === include.version)
+      );
+      if (match && !included.includes(match)) {
+        included.push(match);
+        queue.push(match);
+      }
+    }
+  }
+  return included;
+}
+
+/**
+ * List the CQL libraries in a directory
+ */
+export function getCqlList(dir: string): Array<{ id: string; version?: string; filePath: string }> {
+  const absoluteDir = path.resolve(dir);
+  if (!fs.existsSync(absoluteDir)) {
+    return [];
+  }
+
+  return fs.readdirSync(absoluteDir)
+    .filter(file => isCqlPath(file))
+    .map(file => {
+      const source = loadCqlSource(path.join(absoluteDir, file));
+      return { id: source.name, version: source.version, filePath: file };
+    });
+}
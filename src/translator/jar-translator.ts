@@ -0,0 +1,80 @@
+/**
+ * Local Translator Jar
+ *
+ * Translates CQL with the cql-to-elm command-line translator from the
+ * cqframework project (cql-to-elm-cli). The sources are written to a
+ * temporary directory so the translator finds included libraries next to
+ * the library being translated.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { ELMLibrary } from '../engine/cql-runner.js';
+import { CqlTranslator, TranslationRequest } from './types.js';
+
+const execFileAsync = promisify(execFile);
+
+const TRANSLATION_TIMEOUT_MS = 120_000;
+
+/**
+ * Options passed to the translator, matching what MADiE includes in exported ELM
+ */
+const TRANSLATOR_FLAGS = ['--format=JSON', '--annotations', '--locators', '--result-types', '--detailed-errors'];
+
+/**
+ * Create a translator that runs a local cql-to-elm-cli jar
+ *
+ * @param jarPath - Path to the translator jar
+ * @param javaCommand - Java executable (JAVA_HOME/bin/java or java on the PATH)
+ */
+export function createJarTranslator(
+  jarPath: string,
+  javaCommand = process.env.JAVA_HOME ? path.join(process.env.JAVA_HOME, 'bin', 'java') : 'java'
+): CqlTranslator {
+  const absoluteJar = path.resolve(jarPath);
+
+  return {
+    id: `jar:${absoluteJar}:${TRANSLATOR_FLAGS.join(' ')}`,
+
+    async translate(request: TranslationRequest): Promise<ELMLibrary> {
+      if (!fs.existsSync(absoluteJar)) {
+        throw new Error(`Translator jar not found: ${absoluteJar}`);
+      }
+
+      const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cql-translate-'));
+      try {
+        for (const library of [request.main, ...request.includes]) {
+          fs.writeFileSync(path.join(workDir, `${library.name}.cql`), library.source);
+        }
+        const outputDir = path.join(workDir, 'elm');
+        const outputFile = path.join(outputDir, `${request.main.name}.json`);
+        fs.mkdirSync(outputDir);
+
+        try {
+          await execFileAsync(javaCommand, [
+            '-jar', absoluteJar,
+            '--input', path.join(workDir, `${request.main.name}.cql`),
+            '--output', outputDir,
+            ...TRANSLATOR_FLAGS
+          ], { timeout: TRANSLATION_TIMEOUT_MS, maxBuffer: 16 * 1024 * 1024 });
+        } catch (error) {
+          // The translator still writes ELM (with error annotations) for invalid CQL
+          if (!fs.existsSync(outputFile)) {
+            const stderr = (error as { stderr?: string }).stderr?.trim();
+            throw new Error(`Translator jar failed: ${stderr || (error as Error).message}`);
+          }
+        }
+
+        if (!fs.existsSync(outputFile)) {
+          throw new Error(`Translator jar produced no ELM for ${request.main.name}`);
+        }
+        return JSON.parse(fs.readFileSync(outputFile, 'utf-8')) as ELMLibrary;
+      } finally {
+        fs.rmSync(workDir, { recursive: true, force: true });
+      }
+    }
+  };
+}
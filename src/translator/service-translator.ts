@@ -0,0 +1,72 @@
+/**
+ * Local Translation Service
+ *
+ * Translates CQL through a running cql-translation-service
+ * (https://github.com/cqframework/cql-translation-service), e.g.
+ *   docker run -p 8080:8080 cqframework/cql-translation-service
+ *
+ * The library and the libraries it includes are posted as a multipart
+ * form, one part per library; the service answers with one ELM part per
+ * library.
+ */
+
+import { ELMLibrary } from '../engine/cql-runner.js';
+import { CqlTranslator, TranslationRequest } from './types.js';
+
+const TRANSLATION_TIMEOUT_MS = 120_000;
+
+/**
+ * Options passed to the service, matching what MADiE includes in exported ELM
+ */
+const TRANSLATOR_PARAMETERS = 'annotations=true&locators=true&result-types=true&detailed-errors=true';
+
+/**
+ * Create a translator that calls a translation service
+ *
+ * @param baseUrl - Service URL, e.g. http://localhost:8080
+ */
+export function createServiceTranslator(baseUrl: string): CqlTranslator {
+  const url = `${baseUrl.replace(/\/+$/, '')}/cql/translator?${TRANSLATOR_PARAMETERS}`;
+
+  return {
+    id: `service:${url}`,
+
+    async translate(request: TranslationRequest): Promise<ELMLibrary> {
+      const form = new FormData();
+      for (const library of [request.main, ...request.includes]) {
+        form.append(library.name, new Blob([library.source], { type: 'application/cql' }), `${library.name}.cql`);
+      }
+
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: 'POST',
+          body: form,
+          headers: { Accept: 'multipart/form-data' },
+          signal: AbortSignal.timeout(TRANSLATION_TIMEOUT_MS)
+        });
+      } catch (error) {
+        throw new Error(`Translation service not reachable at ${baseUrl}: ${(error as Error).message}`);
+      }
+
+      // Invalid CQL is answered with ELM carrying error annotations, sometimes with a 4xx status
+      const contentType = response.headers.get('content-type') ?? '';
+      const libraries: ELMLibrary[] = [];
+      if (contentType.startsWith('multipart/')) {
+        for (const [, part] of await response.formData()) {
+          libraries.push(JSON.parse(typeof part === 'string' ? part : await part.text()));
+        }
+      } else if (contentType.includes('json')) {
+        libraries.push(await response.json() as ELMLibrary);
+      } else {
+        throw new Error(`Translation service returned ${response.status} ${response.statusText}: ${(await response.text()).slice(0, 500)}`);
+      }
+
+      const main = libraries.find(l => l.library?.identifier?.id === request.main.name) ?? libraries[0];
+      if (!main?.library) {
+        throw new Error(`Translation service returned no ELM for ${request.main.name}`);
+      }
+      return main;
+    }
+  };
+}
@@ -0,0 +1,161 @@
+/**
+ * CQL Translation
+ *
+ * Translates .cql files to ELM through a translator adapter (local jar or
+ * translation service), caching the ELM by a hash of the sources so
+ * unchanged libraries are not translated again.
+ *
+ * The translator is chosen with --translator or the CQL_TRANSLATOR
+ * environment variable: a path to a .jar, or the URL of a service.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ELMLibrary, elmNodes, elmString } from '../engine/cql-runner.js';
+import { collectIncludedSources, loadCqlSource } from './cql-source.js';
+import { createJarTranslator } from './jar-translator.js';
+import { createServiceTranslator } from './service-translator.js';
+import { CqlTranslator, TranslatorMessage } from './types.js';
+
+/**
+ * Environment variable naming the default translator
+ */
+export const TRANSLATOR_ENV = 'CQL_TRANSLATOR';
+
+/**
+ * Default ELM cache directory
+ */
+export const DEFAULT_ELM_CACHE_DIR = '.cql-cache/elm';
+
+/**
+ * Thrown when the translator reports errors in the CQL
+ */
+export class CqlTranslationError extends Error {
+  constructor(readonly filePath: string, readonly messages: TranslatorMessage[]) {
+    super(`CQL translation failed with ${messages.filter(m => m.severity === 'error').length} error(s): ${filePath}`);
+    this.name = 'CqlTranslationError';
+  }
+}
+
+/**
+ * Result of translating a .cql file
+ */
+export interface CqlTranslation {
+  elm: ELMLibrary;
+  messages: TranslatorMessage[];   // Warnings and messages (errors are thrown)
+  cached: boolean;
+}
+
+/**
+ * Create the translator named by a jar path or a service URL
+ *
+ * @param spec - Jar path or http(s) URL; defaults to the CQL_TRANSLATOR environment variable
+ * @throws Error if no translator is configured
+ */
+export function createTranslator(spec = process.env[TRANSLATOR_ENV]): CqlTranslator {
+  if (!spec) {
+    throw new Error(
+      `No CQL translator configured. Use --translator <cql-to-elm-cli.jar | http://localhost:8080> or set ${TRANSLATOR_ENV}`
+    );
+  }
+  return /^https?:\/\//i.test(spec) ? createServiceTranslator(spec) : createJarTranslator(spec);
+}
+
+/**
+ * Read the translator's CqlToElmError annotations from an ELM library
+ */
+export function extractTranslatorMessages(elm: ELMLibrary): TranslatorMessage[] {
+  const position = (value: string | undefined) => value !== undefined ? Number(value) : undefined;
+  return elmNodes(elm.library, 'annotation')
+    .filter(a => elmString(a, 'type') === 'CqlToElmError')
+    .map(a => {
+      const severity = elmString(a, 'errorSeverity');
+      return {
+        severity: severity === 'warning' || severity === 'info' ? severity : 'error',
+        message: elmString(a, 'message') ?? '',
+        errorType: elmString(a, 'errorType'),
+        libraryId: elmString(a, 'libraryId'),
+        line: position(elmString(a, 'startLine')),
+        column: position(elmString(a, 'startChar'))
+      };
+    });
+}
+
+/**
+ * Format a translator message as file:line:column: severity: message
+ */
+export function formatTranslatorMessage(filePath: string, message: TranslatorMessage): string {
+  const location = message.line !== undefined
+    ? `${filePath}:${message.line}${message.column !== undefined ? `:${message.column}` : ''}`
+    : filePath;
+  const library = message.libraryId && message.libraryId !== path.basename(filePath, '.cql')
+    ? ` (in ${message.libraryId})`
+    : '';
+  return `${location}: ${message.severity}: ${message.message}${library}`;
+}
+
+/**
+ * Translate a .cql file to ELM, using the cache when the sources are unchanged
+ *
+ * @param filePath - The .cql file
+ * @param translator - Translator adapter
+ * @param searchPaths - Directories searched for the .cql files of included libraries
+ * @param cacheDir - ELM cache directory
+ * @throws CqlTranslationError if the translator reports errors
+ */
+export async function translateCqlFile(
+  filePath: string,
+  translator: CqlTranslator,
+  searchPaths: string[] = [path.dirname(path.resolve(filePath))],
+  cacheDir = DEFAULT_ELM_CACHE_DIR
+): Promise<CqlTranslation> {
+  const main = loadCqlSource(filePath);
+  const includes = collectIncludedSources(main, searchPaths);
+
+  const hash = crypto.createHash('sha256').update(translator.id);
+  for (const library of [main, ...includes]) {
+    hash.update('\0').update(library.name).update('\0').update(library.source);
+  }
+  const cacheFile = path.resolve(cacheDir, `${main.name}-${hash.digest('hex').slice(0, 16)}.json`);
+
+  let elm: ELMLibrary;
+  let cached = false;
+  if (fs.existsSync(cacheFile)) {
+    elm = JSON.parse(fs.readFileSync(cacheFile, 'utf-8'));
+    cached = true;
+  } else {
+    elm = await translator.translate({ main, includes });
+  }
+
+  const messages = extractTranslatorMessages(elm);
+  if (messages.some(m => m.severity === 'error')) {
+    throw new CqlTranslationError(main.filePath, messages);
+  }
+
+  if (!cached) {
+    fs.mkdirSync(path.dirname(cacheFile), { recursive: true });
+    fs.writeFileSync(cacheFile, JSON.stringify(elm));
+  }
+  return { elm, messages, cached };
+}
+
+/**
+ * Translate a .cql file and the included libraries found as .cql files
+ *
+ * @returns The main library's translation and the translated includes with their files
+ * @throws CqlTranslationError if the translator reports errors in any of the libraries
+ */
+export async function translateCqlWithIncludes(
+  filePath: string,
+  translator: CqlTranslator,
+  searchPaths: string[] = [path.dirname(path.resolve(filePath))],
+  cacheDir = DEFAULT_ELM_CACHE_DIR
+): Promise<{ main: CqlTranslation; includes: Array<CqlTranslation & { filePath: string }> }> {
+  const main = await translateCqlFile(filePath, translator, searchPaths, cacheDir);
+  const includes: Array<CqlTranslation & { filePath: string }> = [];
+  for (const source of collectIncludedSources(loadCqlSource(filePath), searchPaths)) {
+    includes.push({ ...await translateCqlFile(source.filePath, translator, searchPaths, cacheDir), filePath: source.filePath });
+  }
+  return { main, includes };
+}
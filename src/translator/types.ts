@@ -0,0 +1,46 @@
+/**
+ * Translator Types
+ *
+ * Shared types for CQL-to-ELM translator adapters.
+ */
+
+import { ELMLibrary } from '../engine/cql-runner.js';
+
+/**
+ * A CQL library source sent to the translator
+ */
+export interface CqlSource {
+  name: string;          // Library identifier from the library declaration
+  version?: string;
+  filePath: string;
+  source: string;
+}
+
+/**
+ * The library to translate and the sources of the libraries it includes
+ */
+export interface TranslationRequest {
+  main: CqlSource;
+  includes: CqlSource[];   // Included libraries found as .cql files (transitively)
+}
+
+/**
+ * Translates CQL source to ELM JSON. Errors in the CQL are reported as
+ * CqlToElmError annotations on the returned library, not thrown.
+ */
+export interface CqlTranslator {
+  id: string;            // Identifies the translator and its settings in the ELM cache
+  translate(request: TranslationRequest): Promise<ELMLibrary>;
+}
+
+/**
+ * An error, warning or message reported by the translator
+ */
+export interface TranslatorMessage {
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+  errorType?: string;    // syntax, semantic, include or internal
+  libraryId?: string;
+  line?: number;
+  column?: number;
+}
@@ -0,0 +1,192 @@
+/**
+ * Watch Mode Changes
+ *
+ * Works out what a batch of changed files affects, and what changed
+ * between a run and the rerun that followed it.
+ */
+
+import * as path from 'path';
+import chalk from 'chalk';
+import { isInside } from './file-watcher.js';
+import { TestCaseReport } from '../reporters/types.js';
+
+/**
+ * Directories watched by madie --watch
+ */
+export interface MadieWatchPaths {
+  resourcesDir: string;
+  testCasesDir: string;
+  valuesetsDir: string;
+}
+
+/**
+ * What a batch of changed files affects in a madie run
+ */
+export interface MadieChanges {
+  packageChanged: boolean;       // Library or Measure resources
+  valueSetsChanged: boolean;
+  testCaseNamesChanged: boolean; // Test cases README.txt
+  testCaseIds: string[];         // UUID folders with changed bundles
+}
+
+/**
+ * Outcome of a rerun compared with the previous results
+ */
+export interface TestRunDelta {
+  rerun: number;
+  newlyFailing: string[];
+  newlyPassing: string[];
+  stillFailing: string[];
+  added: string[];
+  removed: string[];
+}
+
+/**
+ * Expression results that changed for one patient
+ */
+export interface PatientDelta {
+  patientId: string;
+  added: boolean;      // Patient was not in the previous run
+  changed: string[];   // Define names whose value changed
+}
+
+/**
+ * Snapshot of a patient's expression results, for comparison with a rerun
+ */
+export type ExpressionSnapshot = Record<string, string>;
+
+/**
+ * Classify changed files by the part of a MADiE run they affect
+ */
+export function classifyMadieChanges(changedFiles: string[], paths: MadieWatchPaths): MadieChanges {
+  const changes: MadieChanges = {
+    packageChanged: false,
+    valueSetsChanged: false,
+    testCaseNamesChanged: false,
+    testCaseIds: []
+  };
+
+  for (const file of changedFiles) {
+    if (isInside(file, paths.testCasesDir)) {
+      const [first] = path.relative(path.resolve(paths.testCasesDir), file).split(path.sep);
+      // The path itself changed when the test cases are a zip file
+      if (first === 'README.txt' || first === '') {
+        changes.testCaseNamesChanged = true;
+      } else if (/^[a-f0-9-]{36}$/i.test(first) && !changes.testCaseIds.includes(first)) {
+        changes.testCaseIds.push(first);
+      }
+    } else if (isInside(file, paths.valuesetsDir)) {
+      changes.valueSetsChanged = changes.valueSetsChanged || file.endsWith('.json') || !path.extname(file);
+    } else if (isInside(file, paths.resourcesDir)) {
+      const zipped = file === path.resolve(paths.resourcesDir);
+      changes.packageChanged = changes.packageChanged || zipped || file.endsWith('.json') || !path.extname(file);
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Compare rerun test cases with their previous results
+ *
+ * @param previous - Previous result per test case id
+ * @param rerun - Results of the rerun test cases
+ * @param removed - Names of test cases that no longer exist
+ */
+export function compareTestRuns(
+  previous: Map<string, TestCaseReport>,
+  rerun: TestCaseReport[],
+  removed: string[]
+): TestRunDelta {
+  const delta: TestRunDelta = {
+    rerun: rerun.length,
+    newlyFailing: [],
+    newlyPassing: [],
+    stillFailing: [],
+    added: [],
+    removed
+  };
+
+  for (const report of rerun) {
+    const before = previous.get(report.testCase.id);
+    if (!before) {
+      delta.added.push(report.testCase.name);
+      if (!report.passed) delta.newlyFailing.push(report.testCase.name);
+    } else if (before.passed && !report.passed) {
+      delta.newlyFailing.push(report.testCase.name);
+    } else if (!before.passed && report.passed) {
+      delta.newlyPassing.push(report.testCase.name);
+    } else if (!report.passed) {
+      delta.stillFailing.push(report.testCase.name);
+    }
+  }
+
+  return delta;
+}
+
+/**
+ * Snapshot expression results as JSON so later runs can be compared
+ */
+export function snapshotExpressions(results: Record<string, unknown>): ExpressionSnapshot {
+  return Object.fromEntries(
+    Object.entries(results)
+      .filter(([name]) => !name.startsWith('__'))
+      .map(([name, value]) => [name, JSON.stringify(value ?? null)])
+  );
+}
+
+/**
+ * Compare a patient's expression results with the previous run
+ */
+export function comparePatientResults(
+  patientId: string,
+  previous: ExpressionSnapshot | undefined,
+  current: ExpressionSnapshot
+): PatientDelta {
+  if (!previous) {
+    return { patientId, added: true, changed: [] };
+  }
+  const names = new Set([...Object.keys(previous), ...Object.keys(current)]);
+  return {
+    patientId,
+    added: false,
+    changed: [...names].filter(name => previous[name] !== current[name])
+  };
+}
+
+/**
+ * Print a compact summary of a madie rerun
+ */
+export function printTestRunDelta(delta: TestRunDelta, resultsLine: string, log: (text: string) => void): void {
+  const parts = [`${delta.rerun} rerun`];
+  if (delta.newlyFailing.length > 0) parts.push(chalk.red(`${delta.newlyFailing.length} newly failing`));
+  if (delta.newlyPassing.length > 0) parts.push(chalk.green(`${delta.newlyPassing.length} newly passing`));
+  if (delta.stillFailing.length > 0) parts.push(chalk.yellow(`${delta.stillFailing.length} still failing`));
+  if (delta.added.length > 0) parts.push(`${delta.added.length} added`);
+  if (delta.removed.length > 0) parts.push(`${delta.removed.length} removed`);
+  log(`Changes: ${parts.join(', ')}`);
+
+  for (const name of delta.newlyFailing) log(chalk.red(`  - ${name}`));
+  for (const name of delta.newlyPassing) log(chalk.green(`  + ${name}`));
+  for (const name of delta.removed) log(chalk.gray(`  x ${name}`));
+
+  log(resultsLine);
+}
+
+/**
+ * Print which expression results changed per patient after a rerun
+ */
+export function printPatientDeltas(deltas: PatientDelta[], removed: string[], log: (text: string) => void): void {
+  const changed = deltas.filter(d => d.added || d.changed.length > 0);
+  log(`Changes: ${deltas.length} patient(s) re-executed, ${changed.length} with changed results${removed.length > 0 ? `, ${removed.length} removed` : ''}`);
+  for (const delta of changed) {
+    if (delta.added) {
+      log(chalk.cyan(`  + ${delta.patientId} (new patient)`));
+    } else {
+      log(chalk.cyan(`  ~ ${delta.patientId}: ${delta.changed.join(', ')}`));
+    }
+  }
+  for (const patientId of removed) {
+    log(chalk.gray(`  x ${patientId}`));
+  }
+}
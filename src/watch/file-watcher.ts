@@ -0,0 +1,132 @@
+/**
+ * File Watcher
+ *
+ * Watches files and directories (recursively) and reports changed files in
+ * batches. Where fs.watch can't watch recursively (Node 18 on Linux), each
+ * subdirectory is watched on its own, including directories added later.
+ * Changes are debounced so that an editor save or a package re-export
+ * triggers one batch, and batches never overlap: changes made while a batch
+ * is being handled are delivered in the next one.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type ChangeHandler = (changedFiles: string[]) => Promise<void>;
+
+export interface FileWatcher {
+  close(): void;
+}
+
+const DEFAULT_DEBOUNCE_MS = 300;
+
+/**
+ * Watch a directory tree, calling onFile with the absolute path of each changed entry
+ */
+function watchDirectory(dir: string, onFile: (filePath: string) => void): { close(): void } {
+  try {
+    return fs.watch(dir, { recursive: true }, (_event, fileName) => {
+      onFile(fileName ? path.join(dir, fileName.toString()) : dir);
+    });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM') throw err;
+  }
+
+  // No recursive watching: watch every directory of the tree, adding new ones as they appear
+  const watchers = new Map<string, fs.FSWatcher>();
+  const add = (current: string) => {
+    if (watchers.has(current)) return;
+    let entries: fs.Dirent[];
+    try {
+      watchers.set(current, fs.watch(current, (_event, fileName) => {
+        const changed = fileName ? path.join(current, fileName.toString()) : current;
+        // Entries can disappear at any moment (e.g. an editor's atomic save)
+        const stats = fs.statSync(changed, { throwIfNoEntry: false });
+        if (!stats) {
+          watchers.get(changed)?.close();
+          watchers.delete(changed);
+        } else if (fileName && stats.isDirectory()) {
+          add(changed);
+        }
+        onFile(changed);
+      }));
+      entries = fs.readdirSync(current, { withFileTypes: true });
+    } catch {
+      return;   // Removed while being added
+    }
+    entries.filter(entry => entry.isDirectory()).forEach(entry => add(path.join(current, entry.name)));
+  };
+  add(dir);
+
+  return {
+    close(): void {
+      watchers.forEach(w => w.close());
+    }
+  };
+}
+
+/**
+ * Watch files and directories for changes
+ *
+ * @param paths - Files or directories to watch; missing paths are ignored
+ * @param onChange - Called with the absolute paths changed since the last batch
+ * @param debounceMs - Quiet period before a batch is delivered
+ */
+export function watchPaths(paths: string[], onChange: ChangeHandler, debounceMs = DEFAULT_DEBOUNCE_MS): FileWatcher {
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | null = null;
+  let running = false;
+  let closed = false;
+
+  const flush = async () => {
+    timer = null;
+    if (closed || running || pending.size === 0) return;
+    running = true;
+    const changedFiles = [...pending].sort();
+    pending.clear();
+    try {
+      await onChange(changedFiles);
+    } finally {
+      running = false;
+      if (pending.size > 0 && !closed) schedule();
+    }
+  };
+
+  const schedule = () => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => void flush(), debounceMs);
+  };
+
+  // Files are watched through their directory, so replacing a file (as editors do on save) is seen
+  const watchers = [...new Set(paths.map(p => path.resolve(p)))]
+    .filter(p => fs.existsSync(p))
+    .map(watched => {
+      if (fs.statSync(watched).isDirectory()) {
+        return watchDirectory(watched, changed => {
+          pending.add(changed);
+          schedule();
+        });
+      }
+      return fs.watch(path.dirname(watched), (_event, fileName) => {
+        if (fileName?.toString() !== path.basename(watched)) return;
+        pending.add(watched);
+        schedule();
+      });
+    });
+
+  return {
+    close(): void {
+      closed = true;
+      if (timer) clearTimeout(timer);
+      watchers.forEach(w => w.close());
+    }
+  };
+}
+
+/**
+ * Check whether a file is inside a directory (or is the directory itself)
+ */
+export function isInside(filePath: string, dir: string): boolean {
+  const relative = path.relative(path.resolve(dir), filePath);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
@@ -0,0 +1,36 @@
+/**
+ * Test Helpers
+ *
+ * Builders for the Measure groups and expression results the measure
+ * calculations are checked against.
+ */
+
+import { MeasureGroup, MeasurePopulation } from '../src/madie/package-loader.js';
+
+/**
+ * A Measure group with a population per code, each criteria expression named after its code
+ */
+export function measureGroup(
+  scoring: string,
+  codes: string[],
+  overrides: Partial<MeasureGroup> = {}
+): MeasureGroup {
+  const populations: MeasurePopulation[] = codes.map(code => ({ id: code, code, expression: code }));
+  return {
+    id: 'group-1',
+    description: null,
+    hasObservations: false,
+    populations,
+    stratifiers: [],
+    populationBasis: 'boolean',
+    scoring,
+    ...overrides
+  };
+}
+
+/**
+ * A plain FHIR Encounter, as resource-basis populations return them
+ */
+export function encounter(id: string): { resourceType: string; id: string } {
+  return { resourceType: 'Encounter', id };
+}
@@ -0,0 +1,178 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  aggregateObservations,
+  calculateObservationScore,
+  evaluateGroupObservations,
+} from '../../src/measure/observation-evaluator.js';
+import { calculatePopulationMembers } from '../../src/measure/population-calculator.js';
+import { MeasureGroup } from '../../src/madie/package-loader.js';
+import { encounter, measureGroup } from '../helpers.js';
+
+/**
+ * A continuous variable group observing its Measure Population of Encounters
+ */
+function continuousVariableGroup(aggregateMethod = 'sum'): MeasureGroup {
+  const group = measureGroup('continuous-variable', [
+    'initial-population',
+    'measure-population',
+    'measure-population-exclusion'
+  ], { populationBasis: 'Encounter', hasObservations: true });
+  group.populations.push({
+    id: 'observation',
+    code: 'measure-observation',
+    expression: 'Length of Stay',
+    criteriaReference: 'measure-population',
+    aggregateMethod
+  });
+  return group;
+}
+
+/**
+ * A ratio group observing both its Numerator and its Denominator of Encounters
+ */
+function ratioObservationGroup(): MeasureGroup {
+  const group = measureGroup('ratio', [
+    'initial-population',
+    'denominator',
+    'denominator-exclusion',
+    'numerator',
+    'numerator-exclusion'
+  ], { populationBasis: 'Encounter', hasObservations: true });
+  group.populations.push(
+    { id: 'denominator-observation', code: 'measure-observation', expression: 'Denominator Observation', criteriaReference: 'denominator' },
+    { id: 'numerator-observation', code: 'measure-observation', expression: 'Numerator Observation', criteriaReference: 'numerator' }
+  );
+  return group;
+}
+
+describe('aggregateObservations', () => {
+  const values = [4, 1, 3, 2];
+
+  it('aggregates with each supported method', () => {
+    assert.equal(aggregateObservations(values, 'sum'), 10);
+    assert.equal(aggregateObservations(values, 'average'), 2.5);
+    assert.equal(aggregateObservations(values, 'median'), 2.5);
+    assert.equal(aggregateObservations([5, 1, 3], 'median'), 3);
+    assert.equal(aggregateObservations(values, 'min'), 1);
+    assert.equal(aggregateObservations(values, 'max'), 4);
+    assert.equal(aggregateObservations(values, 'count'), 4);
+  });
+
+  it('sums when no method is given', () => {
+    assert.equal(aggregateObservations(values), 10);
+  });
+
+  it('aggregates no values to 0', () => {
+    assert.equal(aggregateObservations([], 'average'), 0);
+    assert.equal(aggregateObservations([], 'count'), 0);
+  });
+
+  it('rejects unknown methods', () => {
+    assert.throws(() => aggregateObservations(values, 'mode'), /Unsupported aggregate method: mode/);
+  });
+});
+
+describe('evaluateGroupObservations', () => {
+  it('observes each measure population member less the measure population exclusions', async () => {
+    const group = continuousVariableGroup();
+    const [e1, e2, e3] = ['e1', 'e2', 'e3'].map(encounter);
+    const expressions = {
+      'initial-population': [e1, e2, e3],
+      'measure-population': [e1, e2, e3],
+      'measure-population-exclusion': [e2]
+    };
+    const { memberSets } = calculatePopulationMembers(group, expressions);
+    const calls: unknown[][] = [];
+    const lengths: Record<string, number> = { e1: 3, e2: 7, e3: 5 };
+
+    const [result] = await evaluateGroupObservations(group, expressions, memberSets, async (name, args) => {
+      assert.equal(name, 'Length of Stay');
+      calls.push(args);
+      return lengths[(args[0] as { id: string }).id];
+    });
+
+    assert.deepEqual(calls, [[e1], [e3]]);
+    assert.deepEqual(result.values, [3, 5]);
+    assert.deepEqual(result.memberKeys, ['Encounter/e1', 'Encounter/e3']);
+    assert.equal(result.aggregate, 8);
+  });
+
+  it('observes the criteria-referenced population less its own exclusion', async () => {
+    const group = ratioObservationGroup();
+    const [e1, e2, e3] = ['e1', 'e2', 'e3'].map(encounter);
+    const expressions = {
+      'initial-population': [e1, e2, e3],
+      'denominator': [e1, e2, e3],
+      'denominator-exclusion': [e1],
+      'numerator': [e1, e2, e3],
+      'numerator-exclusion': [e3]
+    };
+    const { memberSets } = calculatePopulationMembers(group, expressions);
+    const observed: Record<string, string[]> = {};
+
+    await evaluateGroupObservations(group, expressions, memberSets, async (name, args) => {
+      (observed[name] ??= []).push((args[0] as { id: string }).id);
+      return 1;
+    });
+
+    assert.deepEqual(observed, {
+      'Denominator Observation': ['e2', 'e3'],
+      'Numerator Observation': ['e1', 'e2']
+    });
+  });
+
+  it('calls a patient-based observation once without arguments', async () => {
+    const group = continuousVariableGroup('max');
+    group.populationBasis = 'boolean';
+    const expressions = { 'initial-population': true, 'measure-population': true };
+    const { memberSets } = calculatePopulationMembers(group, expressions);
+    const calls: unknown[][] = [];
+
+    const [result] = await evaluateGroupObservations(group, expressions, memberSets, async (_name, args) => {
+      calls.push(args);
+      return 42;
+    });
+
+    assert.deepEqual(calls, [[]]);
+    assert.equal(result.aggregate, 42);
+  });
+
+  it('reads quantities by value and skips results that are not numbers', async () => {
+    const group = continuousVariableGroup();
+    const [e1, e2, e3] = ['e1', 'e2', 'e3'].map(encounter);
+    const expressions = { 'initial-population': [e1, e2, e3], 'measure-population': [e1, e2, e3] };
+    const { memberSets } = calculatePopulationMembers(group, expressions);
+    const results: Record<string, unknown> = { e1: { value: 2.5, unit: 'h' }, e2: null, e3: 'n/a' };
+
+    const [result] = await evaluateGroupObservations(group, expressions, memberSets, async (_name, args) =>
+      results[(args[0] as { id: string }).id]
+    );
+
+    assert.deepEqual(result.values, [2.5]);
+    assert.deepEqual(result.memberKeys, ['Encounter/e1']);
+  });
+});
+
+describe('calculateObservationScore', () => {
+  it('scores a ratio group as the numerator aggregate over the denominator aggregate', () => {
+    const score = calculateObservationScore(ratioObservationGroup(), [
+      { populationId: 'denominator-observation', aggregate: 8 },
+      { populationId: 'numerator-observation', aggregate: 2 }
+    ]);
+    assert.equal(score, 0.25);
+  });
+
+  it('scores a ratio group with a zero denominator aggregate as 0', () => {
+    const score = calculateObservationScore(ratioObservationGroup(), [
+      { populationId: 'denominator-observation', aggregate: 0 },
+      { populationId: 'numerator-observation', aggregate: 2 }
+    ]);
+    assert.equal(score, 0);
+  });
+
+  it('scores other groups by their first observation aggregate', () => {
+    assert.equal(calculateObservationScore(continuousVariableGroup(), [{ populationId: 'observation', aggregate: 12 }]), 12);
+    assert.equal(calculateObservationScore(continuousVariableGroup(), []), 0);
+  });
+});
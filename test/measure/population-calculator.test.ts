@@ -0,0 +1,163 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  calculateActualGroups,
+  calculatePopulationMembers,
+  calculateProportionScore,
+  calculateRatioScore,
+} from '../../src/measure/population-calculator.js';
+import { emptyPopulationCounts, PopulationCounts } from '../../src/madie/test-bundle-processor.js';
+import { encounter, measureGroup } from '../helpers.js';
+
+const PROPORTION_CODES = [
+  'initial-population',
+  'denominator',
+  'denominator-exclusion',
+  'denominator-exception',
+  'numerator',
+  'numerator-exclusion'
+];
+
+function sizes(sets: Record<string, Set<string>>): Record<string, number> {
+  return Object.fromEntries(Object.entries(sets).map(([key, members]) => [key, members.size]));
+}
+
+describe('calculatePopulationMembers', () => {
+  it('limits the denominator to the initial population', () => {
+    const group = measureGroup('proportion', PROPORTION_CODES);
+    const { memberSets } = calculatePopulationMembers(group, {
+      'initial-population': false,
+      'denominator': true,
+      'numerator': true
+    });
+    assert.equal(memberSets.denominator.size, 0);
+    assert.equal(memberSets.numerator.size, 0);
+  });
+
+  it('removes denominator exclusions from the numerator of a proportion group', () => {
+    const group = measureGroup('proportion', PROPORTION_CODES);
+    const { memberSets } = calculatePopulationMembers(group, {
+      'initial-population': true,
+      'denominator': true,
+      'denominator-exclusion': true,
+      'numerator': true
+    });
+    assert.deepEqual(sizes(memberSets), {
+      initialPopulation: 1,
+      denominator: 1,
+      denominatorExclusion: 1,
+      denominatorException: 0,
+      numerator: 0,
+      numeratorExclusion: 0,
+      measurePopulation: 0,
+      measurePopulationExclusion: 0
+    });
+  });
+
+  it('applies denominator exceptions only outside the numerator and exclusions', () => {
+    const group = measureGroup('proportion', PROPORTION_CODES, { populationBasis: 'Encounter' });
+    const [e1, e2, e3, e4] = ['e1', 'e2', 'e3', 'e4'].map(encounter);
+    const { memberSets } = calculatePopulationMembers(group, {
+      'initial-population': [e1, e2, e3, e4],
+      'denominator': [e1, e2, e3, e4],
+      'denominator-exclusion': [e1],
+      'denominator-exception': [e1, e2, e3],
+      'numerator': [e2]
+    });
+    assert.deepEqual([...memberSets.denominatorException], ['Encounter/e3']);
+    assert.deepEqual([...memberSets.numerator], ['Encounter/e2']);
+  });
+
+  it('limits the numerator exclusion to the numerator', () => {
+    const group = measureGroup('proportion', PROPORTION_CODES, { populationBasis: 'Encounter' });
+    const [e1, e2] = ['e1', 'e2'].map(encounter);
+    const { memberSets } = calculatePopulationMembers(group, {
+      'initial-population': [e1, e2],
+      'denominator': [e1, e2],
+      'numerator': [e1],
+      'numerator-exclusion': [e1, e2]
+    });
+    assert.deepEqual([...memberSets.numeratorExclusion], ['Encounter/e1']);
+  });
+
+  it('draws a ratio numerator from the initial population', () => {
+    const group = measureGroup('ratio', PROPORTION_CODES, { populationBasis: 'Encounter' });
+    const [e1, e2] = ['e1', 'e2'].map(encounter);
+    const { memberSets } = calculatePopulationMembers(group, {
+      'initial-population': [e1, e2],
+      'denominator': [e1],
+      'denominator-exclusion': [e1],
+      'numerator': [e1, e2]
+    });
+    assert.equal(memberSets.numerator.size, 2);
+  });
+
+  it('limits measure population exclusions to the measure population', () => {
+    const group = measureGroup('continuous-variable', [
+      'initial-population',
+      'measure-population',
+      'measure-population-exclusion'
+    ], { populationBasis: 'Encounter' });
+    const [e1, e2, e3] = ['e1', 'e2', 'e3'].map(encounter);
+    const { memberSets } = calculatePopulationMembers(group, {
+      'initial-population': [e1, e2],
+      'measure-population': [e1, e2, e3],
+      'measure-population-exclusion': [e2, e3]
+    });
+    assert.deepEqual([...memberSets.measurePopulation], ['Encounter/e1', 'Encounter/e2']);
+    assert.deepEqual([...memberSets.measurePopulationExclusion], ['Encounter/e2']);
+  });
+
+  it('reports results that do not match the population basis', () => {
+    const group = measureGroup('proportion', PROPORTION_CODES, { populationBasis: 'Encounter' });
+    const { basisMismatches } = calculatePopulationMembers(group, { 'initial-population': true });
+    assert.equal(basisMismatches.length, 1);
+    assert.match(basisMismatches[0], /initial-population "initial-population" returned Boolean/);
+  });
+});
+
+describe('scores', () => {
+  const counts = (populations: Partial<PopulationCounts>): PopulationCounts => ({
+    ...emptyPopulationCounts(),
+    ...populations
+  });
+
+  it('scores a proportion as (NUMER - NUMEX) / (DENOM - DENEX - DENEXCEP)', () => {
+    const score = calculateProportionScore(counts({
+      denominator: 10,
+      denominatorExclusion: 2,
+      denominatorException: 3,
+      numerator: 4,
+      numeratorExclusion: 1
+    }));
+    assert.equal(score, 3 / 5);
+  });
+
+  it('scores a ratio as (NUMER - NUMEX) / (DENOM - DENEX)', () => {
+    const score = calculateRatioScore(counts({
+      denominator: 10,
+      denominatorExclusion: 2,
+      denominatorException: 3,
+      numerator: 4,
+      numeratorExclusion: 1
+    }));
+    assert.equal(score, 3 / 8);
+  });
+
+  it('scores an empty denominator as 0', () => {
+    assert.equal(calculateProportionScore(counts({ numerator: 1 })), 0);
+    assert.equal(calculateRatioScore(counts({ numerator: 1 })), 0);
+  });
+
+  it('scores a group without declared scoring that has a numerator as a proportion', () => {
+    const group = measureGroup('unknown', PROPORTION_CODES, { populationBasis: 'Encounter' });
+    const [e1, e2] = ['e1', 'e2'].map(encounter);
+    const [actual] = calculateActualGroups([group], {
+      'initial-population': [e1, e2],
+      'denominator': [e1, e2],
+      'numerator': [e2]
+    });
+    assert.equal(actual.populations.denominator, 2);
+    assert.equal(actual.measureScore, 0.5);
+  });
+});
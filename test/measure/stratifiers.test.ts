@@ -0,0 +1,120 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { calculateActualGroups, GroupObservations } from '../../src/measure/population-calculator.js';
+import { MeasureGroup } from '../../src/madie/package-loader.js';
+import { encounter, measureGroup } from '../helpers.js';
+
+const COHORT_CODES = ['initial-population', 'denominator', 'numerator'];
+
+function stratifiedGroup(overrides: Partial<MeasureGroup> = {}): MeasureGroup {
+  return measureGroup('proportion', COHORT_CODES, {
+    stratifiers: [{ id: 'strat-1', code: 'Stratum', expression: 'Stratum', components: [] }],
+    ...overrides
+  });
+}
+
+function strata(group: MeasureGroup, expressions: Record<string, unknown>, observations?: Record<string, GroupObservations>) {
+  const [actual] = calculateActualGroups([group], expressions, observations);
+  return actual.stratifiers[0].strata;
+}
+
+describe('stratifiers', () => {
+  const populations = { 'initial-population': true, 'denominator': true, 'numerator': true };
+
+  it('places a patient in a "true" stratum', () => {
+    const [stratum] = strata(stratifiedGroup(), { ...populations, Stratum: true });
+    assert.equal(stratum.value, 'true');
+    assert.equal(stratum.populations.numerator, 1);
+    assert.equal(stratum.measureScore, 1);
+  });
+
+  it('places a patient in a "false" stratum', () => {
+    const [stratum] = strata(stratifiedGroup(), { ...populations, Stratum: false });
+    assert.equal(stratum.value, 'false');
+    assert.equal(stratum.populations.initialPopulation, 1);
+  });
+
+  it('places a patient with a null result in no stratum', () => {
+    assert.deepEqual(strata(stratifiedGroup(), { ...populations, Stratum: null }), []);
+  });
+
+  it('names a stratum by a code result, normalized', () => {
+    const [stratum] = strata(stratifiedGroup(), { ...populations, Stratum: { code: 'M', system: 'http://hl7.org/fhir/gender' } });
+    assert.equal(stratum.value, 'm');
+  });
+
+  it('limits a list-valued stratum to the listed members', () => {
+    const group = stratifiedGroup({ populationBasis: 'Encounter' });
+    const [e1, e2, e3] = ['e1', 'e2', 'e3'].map(encounter);
+    const [stratum] = strata(group, {
+      'initial-population': [e1, e2, e3],
+      'denominator': [e1, e2, e3],
+      'numerator': [e1, e3],
+      'Stratum': [e1, e2]
+    });
+    assert.equal(stratum.value, 'true');
+    assert.equal(stratum.populations.denominator, 2);
+    assert.equal(stratum.populations.numerator, 1);
+    assert.equal(stratum.measureScore, 0.5);
+  });
+
+  it('combines the values of a component stratifier', () => {
+    const group = stratifiedGroup({
+      stratifiers: [{
+        id: 'strat-1',
+        code: null,
+        expression: null,
+        components: [{ code: 'age', expression: 'Age Group' }, { code: 'sex', expression: 'Sex' }]
+      }]
+    });
+    const [stratum] = strata(group, { ...populations, 'Age Group': '18-64', 'Sex': false });
+    assert.deepEqual(stratum.components, [{ code: 'age', value: '18-64' }, { code: 'sex', value: 'false' }]);
+    assert.equal(stratum.value, 'age=18-64, sex=false');
+  });
+
+  it('puts a patient in no component stratum when a component has no value', () => {
+    const group = stratifiedGroup({
+      stratifiers: [{
+        id: 'strat-1',
+        code: null,
+        expression: null,
+        components: [{ code: 'age', expression: 'Age Group' }, { code: 'sex', expression: 'Sex' }]
+      }]
+    });
+    assert.deepEqual(strata(group, { ...populations, 'Age Group': '18-64', 'Sex': null }), []);
+  });
+
+  it('scores a ratio stratum from the observations of its members', () => {
+    const group = measureGroup('ratio', ['initial-population', 'denominator', 'numerator'], {
+      populationBasis: 'Encounter',
+      hasObservations: true,
+      stratifiers: [{ id: 'strat-1', code: 'Stratum', expression: 'Stratum', components: [] }]
+    });
+    group.populations.push(
+      { id: 'denominator-observation', code: 'measure-observation', expression: 'Denominator Observation', criteriaReference: 'denominator' },
+      { id: 'numerator-observation', code: 'measure-observation', expression: 'Numerator Observation', criteriaReference: 'numerator' }
+    );
+    const [e1, e2] = ['e1', 'e2'].map(encounter);
+    const memberKeys = ['Encounter/e1', 'Encounter/e2'];
+    const observations: Record<string, GroupObservations> = {
+      [group.id]: {
+        observations: {},
+        measureScore: 0,
+        results: [
+          { populationId: 'denominator-observation', expression: 'Denominator Observation', aggregateMethod: 'sum', values: [4, 6], memberKeys, aggregate: 10 },
+          { populationId: 'numerator-observation', expression: 'Numerator Observation', aggregateMethod: 'sum', values: [1, 3], memberKeys, aggregate: 4 }
+        ]
+      }
+    };
+
+    const [stratum] = strata(group, {
+      'initial-population': [e1, e2],
+      'denominator': [e1, e2],
+      'numerator': [e1, e2],
+      'Stratum': [e2]
+    }, observations);
+
+    assert.deepEqual(stratum.observations, { 'denominator-observation': [6], 'numerator-observation': [3] });
+    assert.equal(stratum.measureScore, 0.5);
+  });
+});